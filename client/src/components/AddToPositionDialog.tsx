@@ -0,0 +1,180 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { format } from "date-fns";
+import { CalendarIcon, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getCurrencySymbol } from "@/lib/format";
+import { getOpenQuantity, getTradeActions } from "@/lib/trade";
+import { useState } from "react";
+import type { BuyLot, StockEntry } from "@/types/ledger";
+
+interface AddToPositionDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onSubmit: (lot: BuyLot) => Promise<void>;
+  isLoading?: boolean;
+  entry: StockEntry;
+}
+
+export default function AddToPositionDialog({
+  open,
+  onClose,
+  onSubmit,
+  isLoading = false,
+  entry
+}: AddToPositionDialogProps) {
+  const [date, setDate] = useState<Date>(new Date());
+  const [error, setError] = useState<string | null>(null);
+  const action = getTradeActions(entry).open;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      const form = e.currentTarget;
+      const formData = new FormData(form);
+      const price = parseFloat(formData.get('price') as string);
+      const quantity = Number(formData.get('quantity'));
+      const fees = formData.get('fees') ? parseFloat(formData.get('fees') as string) : 0;
+
+      if (isNaN(price) || price <= 0) {
+        throw new Error(`Please enter a valid ${action.toLowerCase()} price`);
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new Error('Please enter a valid quantity');
+      }
+      if (isNaN(fees) || fees < 0) {
+        throw new Error('Please enter valid fees');
+      }
+
+      await onSubmit({
+        date: date.toISOString(),
+        price,
+        quantity,
+        fees
+      });
+
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add to position');
+    }
+  };
+
+  const handleClose = () => {
+    if (!isLoading) {
+      setError(null);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Add to Position</DialogTitle>
+          <DialogDescription>
+            Record another {action === 'Short' ? 'short sale' : 'purchase'} of {entry.stockName} ({entry.symbol}).
+            The position has {getOpenQuantity(entry)} shares at an average price of {getCurrencySymbol(entry.symbol)}{entry.priceBuy.toFixed(2)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>{action} Date</Label>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className={cn(
+                    "w-full justify-start text-left font-normal",
+                    !date && "text-muted-foreground"
+                  )}
+                  disabled={isLoading}
+                >
+                  <CalendarIcon className="mr-2 h-4 w-4" />
+                  {date ? format(date, "PPP") : <span>Pick a date</span>}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0" align="start">
+                <Calendar
+                  mode="single"
+                  selected={date}
+                  onSelect={(date) => date && setDate(date)}
+                  initialFocus
+                />
+              </PopoverContent>
+            </Popover>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="price">{action} Price</Label>
+              <Input
+                id="price"
+                name="price"
+                type="number"
+                step="0.01"
+                min="0.01"
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quantity">Quantity</Label>
+              <Input
+                id="quantity"
+                name="quantity"
+                type="number"
+                step="1"
+                min="1"
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="fees">Other Fees</Label>
+              <Input
+                id="fees"
+                name="fees"
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder="0.00"
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <div className="text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" type="button" onClick={handleClose} disabled={isLoading}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                'Add'
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,202 @@
+import { useMemo } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  type TooltipProps
+} from "recharts";
+import useSWR from "swr";
+import { AlertCircle } from "lucide-react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useMarketStatus } from "@/hooks/use-market-status";
+import { fetcher } from "@/lib/fetcher";
+import { buildComparison, type ComparisonPoint, type ComparisonScale } from "@/lib/comparison";
+import { cn } from "@/lib/utils";
+import type { Candle, ChartInterval, ChartTimeframe, StockChartData } from "@/types/stocks";
+
+interface ComparisonChartProps {
+  symbols: string[]; // The chart's own symbol first, then the compared ones
+  range: ChartTimeframe;
+  interval: ChartInterval;
+  scale: ComparisonScale;
+  formatTime: (time: number) => string;
+}
+
+interface ComparisonData {
+  series: Array<{ symbol: string; candles: Candle[] }>;
+  errors: Array<{ symbol: string; details: string }>;
+}
+
+// First color belongs to the chart's own symbol
+const SERIES_COLORS = ['hsl(var(--primary))', '#f59e0b', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16', '#f97316'];
+
+function getSeriesColor(index: number): string {
+  return SERIES_COLORS[index % SERIES_COLORS.length];
+}
+
+function formatValue(value: number, scale: ComparisonScale): string {
+  return scale === 'rebased' ? value.toFixed(2) : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+}
+
+// Candles of every symbol over the same window. A symbol that fails to load
+// is reported rather than failing the whole comparison.
+async function fetchComparison(symbols: string[], range: ChartTimeframe, interval: ChartInterval): Promise<ComparisonData> {
+  const results = await Promise.allSettled(symbols.map(symbol => (
+    fetcher(`/api/stock/${encodeURIComponent(symbol)}?range=${range}&interval=${interval}`) as Promise<StockChartData>
+  )));
+
+  const data: ComparisonData = { series: [], errors: [] };
+  results.forEach((result, index) => {
+    const symbol = symbols[index];
+    if (result.status === 'fulfilled') {
+      data.series.push({ symbol, candles: result.value.candles ?? [] });
+    } else {
+      const details = result.reason?.info?.details || result.reason?.message || 'Unable to load price history';
+      data.errors.push({ symbol, details });
+    }
+  });
+  return data;
+}
+
+// Several symbols plotted on a common scale over the same window, with each
+// series' total return in the legend
+export default function ComparisonChart({ symbols, range, interval, scale, formatTime }: ComparisonChartProps) {
+  const { isOpen } = useMarketStatus();
+  const { data, error, isLoading } = useSWR<ComparisonData>(
+    ['compare', range, interval, symbols.join(',')],
+    () => fetchComparison(symbols, range, interval),
+    { refreshInterval: symbols.some(isOpen) ? 30000 : 0 }
+  );
+
+  const comparison = useMemo(
+    () => (data ? buildComparison(data.series, scale) : null),
+    [data, scale]
+  );
+
+  if (isLoading) {
+    return <Skeleton className="w-full h-[400px]" />;
+  }
+
+  if (error || !data || !comparison || comparison.points.length === 0) {
+    return (
+      <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
+        <div className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          <span>Unable to load comparison data</span>
+        </div>
+      </div>
+    );
+  }
+
+  const plotted = symbols.filter(symbol => data.series.some(series => series.symbol === symbol));
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-wrap gap-4 text-sm mb-2">
+        {plotted.map(symbol => {
+          const totalReturn = comparison.returns[symbol];
+          return (
+            <span key={symbol} className="flex items-center gap-1.5">
+              <span className="h-0.5 w-4" style={{ backgroundColor: getSeriesColor(symbols.indexOf(symbol)) }} />
+              <span className="font-medium">{symbol}</span>
+              {totalReturn != null && (
+                <span className={totalReturn >= 0 ? "text-green-600" : "text-red-600"}>
+                  {formatValue(totalReturn, 'percent')}
+                </span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {data.errors.length > 0 && (
+        <p className="text-xs text-destructive mb-2">
+          {data.errors.map(({ symbol, details }) => `${symbol}: ${details}`).join(' · ')}
+        </p>
+      )}
+      <div className="h-[400px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={comparison.points}>
+            <XAxis
+              dataKey="time"
+              tick={{ fontSize: 12 }}
+              tickFormatter={formatTime}
+              interval="preserveStartEnd"
+              minTickGap={40}
+            />
+            <YAxis
+              domain={['auto', 'auto']}
+              tick={{ fontSize: 12 }}
+              width={60}
+              tickFormatter={(value: number) => formatValue(value, scale)}
+            />
+            <Tooltip
+              cursor={{ stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '3 3' }}
+              content={<ComparisonTooltip symbols={plotted} allSymbols={symbols} scale={scale} formatTime={formatTime} />}
+            />
+            <ReferenceLine
+              y={scale === 'rebased' ? 100 : 0}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="2 2"
+              strokeOpacity={0.6}
+            />
+            {plotted.map(symbol => (
+              <Line
+                key={symbol}
+                type="monotone"
+                dataKey={(point: ComparisonPoint) => point.values[symbol]}
+                name={symbol}
+                stroke={getSeriesColor(symbols.indexOf(symbol))}
+                strokeWidth={symbol === symbols[0] ? 2 : 1.5}
+                dot={false}
+                activeDot={{ r: 3 }}
+                connectNulls
+                isAnimationActive={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+function ComparisonTooltip({
+  active,
+  payload,
+  symbols,
+  allSymbols,
+  scale,
+  formatTime
+}: TooltipProps<number, string> & {
+  symbols: string[];
+  allSymbols: string[];
+  scale: ComparisonScale;
+  formatTime: (time: number) => string;
+}) {
+  const point = payload?.[0]?.payload as ComparisonPoint | undefined;
+  if (!active || !point) return null;
+
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+      <div className="font-medium mb-1">{formatTime(point.time)}</div>
+      <div className="grid grid-cols-[auto_auto] gap-x-3">
+        {symbols.filter(symbol => point.values[symbol] != null).map(symbol => {
+          const value = point.values[symbol]!;
+          const up = scale === 'rebased' ? value >= 100 : value >= 0;
+          return (
+            <div key={symbol} className="contents">
+              <span style={{ color: getSeriesColor(allSymbols.indexOf(symbol)) }}>{symbol}</span>
+              <span className={cn("text-right", up ? "text-green-600" : "text-red-600")}>
+                {formatValue(value, scale)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
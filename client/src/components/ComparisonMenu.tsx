@@ -0,0 +1,99 @@
+import { GitCompareArrows, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import StockSearch from "@/components/StockSearch";
+import { BENCHMARK_INDICES } from "@/lib/comparison";
+
+interface ComparisonMenuProps {
+  symbol: string;
+  compareSymbols: string[];
+  onChange: (compareSymbols: string[]) => void;
+}
+
+// More would make the chart unreadable
+const MAX_COMPARED = 6;
+
+// Picker for the symbols and benchmark indices compared against the chart's symbol
+export default function ComparisonMenu({ symbol, compareSymbols, onChange }: ComparisonMenuProps) {
+  const canAdd = compareSymbols.length < MAX_COMPARED;
+
+  const addSymbol = (added: string) => {
+    if (!canAdd || added === symbol || compareSymbols.includes(added)) return;
+    onChange([...compareSymbols, added]);
+  };
+
+  const removeSymbol = (removed: string) => {
+    onChange(compareSymbols.filter(s => s !== removed));
+  };
+
+  const benchmarks = BENCHMARK_INDICES.filter(index => index.symbol !== symbol);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitCompareArrows className="h-4 w-4 mr-1" />
+          Compare{compareSymbols.length > 0 && ` (${compareSymbols.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div>
+          <div className="text-sm font-medium mb-2">Add symbol</div>
+          {canAdd ? (
+            <StockSearch onSelect={addSymbol} showForm={false} className="w-full" />
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              At most {MAX_COMPARED} symbols can be compared at once.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <div className="text-sm font-medium mb-2">Benchmark index</div>
+          <div className="flex flex-wrap gap-1">
+            {benchmarks.map(index => (
+              <Button
+                key={index.symbol}
+                variant="secondary"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                disabled={!canAdd || compareSymbols.includes(index.symbol)}
+                onClick={() => addSymbol(index.symbol)}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {index.name}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {compareSymbols.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Comparing with {symbol}</span>
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange([])}>
+                Clear
+              </Button>
+            </div>
+            {compareSymbols.map(compared => (
+              <div key={compared} className="flex items-center justify-between rounded-md border px-2 py-1">
+                <span className="text-sm">
+                  {BENCHMARK_INDICES.find(index => index.symbol === compared)?.name ?? compared}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label={`Stop comparing ${compared}`}
+                  onClick={() => removeSymbol(compared)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
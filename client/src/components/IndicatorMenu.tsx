@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Activity, Plus, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useIndicatorPresets } from "@/hooks/use-indicator-presets";
+import { INDICATORS, createIndicator, describeIndicator } from "@/lib/indicators";
+import type { IndicatorConfig, IndicatorType } from "@/types/indicators";
+
+interface IndicatorMenuProps {
+  indicators: IndicatorConfig[];
+  onChange: (indicators: IndicatorConfig[]) => void;
+}
+
+// Picker for the chart's technical indicators and the user's saved presets
+export default function IndicatorMenu({ indicators, onChange }: IndicatorMenuProps) {
+  const { presets, canSave, savePreset, deletePreset } = useIndicatorPresets();
+  const [presetId, setPresetId] = useState<string>("");
+  const [presetName, setPresetName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const addIndicator = (type: IndicatorType) => {
+    onChange([...indicators, createIndicator(type)]);
+  };
+
+  const removeIndicator = (id: string) => {
+    onChange(indicators.filter(indicator => indicator.id !== id));
+  };
+
+  const updateParam = (id: string, key: string, value: number) => {
+    if (isNaN(value)) return;
+    onChange(indicators.map(indicator => (
+      indicator.id === id
+        ? { ...indicator, params: { ...indicator.params, [key]: value } }
+        : indicator
+    )));
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    setPresetId(id);
+    // Fresh ids so re-applying a preset resets any edited parameters
+    onChange(preset.indicators.map(indicator => createIndicator(indicator.type, indicator.params)));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const preset = await savePreset(presetName, indicators);
+      setPresetId(preset.id);
+      setPresetName("");
+      toast({ title: "Preset saved", description: `Saved "${preset.name}"` });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save preset"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      await deletePreset(presetId);
+      setPresetId("");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete preset"
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Activity className="h-4 w-4 mr-1" />
+          Indicators{indicators.length > 0 && ` (${indicators.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <div>
+          <div className="text-sm font-medium mb-2">Add indicator</div>
+          <div className="flex flex-wrap gap-1">
+            {Object.values(INDICATORS).map(definition => (
+              <Button
+                key={definition.type}
+                variant="secondary"
+                size="sm"
+                className="h-7 px-2 text-xs"
+                title={definition.name}
+                onClick={() => addIndicator(definition.type)}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                {definition.type}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {indicators.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-sm font-medium">Active</div>
+            {indicators.map(indicator => (
+              <div key={indicator.id} className="rounded-md border p-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm">{describeIndicator(indicator)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    aria-label={`Remove ${describeIndicator(indicator)}`}
+                    onClick={() => removeIndicator(indicator.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+                {INDICATORS[indicator.type].params.length > 0 && (
+                  <div className="flex gap-2 mt-1">
+                    {INDICATORS[indicator.type].params.map(param => (
+                      <label key={param.key} className="flex-1 text-xs text-muted-foreground">
+                        {param.label}
+                        <Input
+                          type="number"
+                          className="h-7 mt-1"
+                          min={param.min}
+                          max={param.max}
+                          step={param.step ?? 1}
+                          defaultValue={indicator.params[param.key] ?? param.defaultValue}
+                          onChange={(e) => {
+                            // Out-of-range values are ignored until the input is valid again
+                            const value = Number(e.target.value);
+                            if (value >= param.min && value <= param.max) {
+                              updateParam(indicator.id, param.key, value);
+                            }
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t pt-3">
+          <div className="text-sm font-medium">Presets</div>
+          {canSave ? (
+            <>
+              {presets.length > 0 && (
+                <div className="flex gap-2">
+                  <Select value={presetId} onValueChange={applyPreset}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue placeholder="Apply a preset" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {presets.map(preset => (
+                        <SelectItem key={preset.id} value={preset.id}>
+                          {preset.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    aria-label="Delete preset"
+                    disabled={!presetId}
+                    onClick={handleDelete}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Input
+                  className="h-8"
+                  placeholder="Preset name"
+                  value={presetName}
+                  onChange={(e) => setPresetName(e.target.value)}
+                />
+                <Button
+                  size="sm"
+                  className="h-8 shrink-0"
+                  disabled={isSaving || !presetName.trim() || indicators.length === 0}
+                  onClick={handleSave}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-muted-foreground">Sign in to save indicator presets.</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,142 @@
+import { ArrowDown, ArrowUp, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DEFAULT_LEDGER_SORT, LEDGER_SORT_FIELDS } from "@/lib/ledgerFilters";
+import type { StockLedgerFilters, StockLedgerSort, StockLedgerSortField } from "@/types/ledger";
+
+interface LedgerFilterBarProps {
+  filters: StockLedgerFilters;
+  sort: StockLedgerSort;
+  // `replace` is set for keystroke-level changes that should not each add
+  // a browser history entry
+  onChange: (filters: StockLedgerFilters, sort: StockLedgerSort, options?: { replace?: boolean }) => void;
+}
+
+// Select items cannot have an empty value, so "no filter" is spelled out
+const ALL = 'all';
+
+export default function LedgerFilterBar({ filters, sort, onChange }: LedgerFilterBarProps) {
+  const setFilters = (changes: Partial<StockLedgerFilters>, options?: { replace?: boolean }) => {
+    onChange({ ...filters, ...changes }, sort, options);
+  };
+
+  const setDateRange = (start: string, end: string) => {
+    setFilters({ dateRange: start || end ? { start, end } : undefined });
+  };
+
+  const hasFilters = Object.values(filters).some(value => value !== undefined);
+  const isDefaultSort = sort.field === DEFAULT_LEDGER_SORT.field && sort.direction === DEFAULT_LEDGER_SORT.direction;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative w-full sm:w-56">
+        <Search className="absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          className="pl-8"
+          placeholder="Search stocks"
+          value={filters.search ?? ''}
+          onChange={(e) => setFilters({ search: e.target.value || undefined }, { replace: true })}
+        />
+      </div>
+
+      <Select
+        value={filters.status ?? ALL}
+        onValueChange={(value) => setFilters({ status: value === ALL ? undefined : value as StockLedgerFilters['status'] })}
+      >
+        <SelectTrigger className="w-32">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All statuses</SelectItem>
+          <SelectItem value="Active">Active</SelectItem>
+          <SelectItem value="Closed">Closed</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.direction ?? ALL}
+        onValueChange={(value) => setFilters({ direction: value === ALL ? undefined : value as StockLedgerFilters['direction'] })}
+      >
+        <SelectTrigger className="w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All directions</SelectItem>
+          <SelectItem value="Long">Long</SelectItem>
+          <SelectItem value="Short">Short</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filters.confidence ?? ALL}
+        onValueChange={(value) => setFilters({ confidence: value === ALL ? undefined : value as StockLedgerFilters['confidence'] })}
+      >
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>Any confidence</SelectItem>
+          <SelectItem value="Low">Low</SelectItem>
+          <SelectItem value="Medium">Medium</SelectItem>
+          <SelectItem value="High">High</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1">
+        <Input
+          type="date"
+          className="w-40"
+          aria-label="Bought from"
+          value={filters.dateRange?.start ?? ''}
+          onChange={(e) => setDateRange(e.target.value, filters.dateRange?.end ?? '')}
+        />
+        <span className="text-muted-foreground">–</span>
+        <Input
+          type="date"
+          className="w-40"
+          aria-label="Bought until"
+          value={filters.dateRange?.end ?? ''}
+          onChange={(e) => setDateRange(filters.dateRange?.start ?? '', e.target.value)}
+        />
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Select
+          value={sort.field}
+          onValueChange={(field) => onChange(filters, { ...sort, field: field as StockLedgerSortField })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(LEDGER_SORT_FIELDS).map(([field, label]) => (
+              <SelectItem key={field} value={field}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={sort.direction === 'asc' ? 'Sort descending' : 'Sort ascending'}
+          onClick={() => onChange(filters, { ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+        >
+          {sort.direction === 'asc' ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      {(hasFilters || !isDefaultSort) && (
+        <Button variant="ghost" size="sm" onClick={() => onChange({}, DEFAULT_LEDGER_SORT)}>
+          <X className="mr-1 h-4 w-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  );
+}
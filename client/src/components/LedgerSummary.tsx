@@ -0,0 +1,46 @@
+import { Card } from "@/components/ui/card";
+import { formatMoney } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import type { StockLedgerSummary } from "@/types/ledger";
+
+interface LedgerSummaryProps {
+  currency: string;
+  summary: StockLedgerSummary;
+}
+
+// Capital, value and returns of the ledger's positions in one currency
+export default function LedgerSummary({ currency, summary }: LedgerSummaryProps) {
+  const isUp = summary.overallProfitLoss >= 0;
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      <Card className="p-4">
+        <div className="text-sm text-muted-foreground">Invested ({summary.activePositions} open)</div>
+        <div className="text-xl font-bold mt-1">{formatMoney(currency, summary.totalInvestment)}</div>
+      </Card>
+      <Card className="p-4">
+        <div className="text-sm text-muted-foreground">Current Value</div>
+        <div className="text-xl font-bold mt-1">{formatMoney(currency, summary.currentValue)}</div>
+      </Card>
+      <Card className="p-4">
+        <div className="text-sm text-muted-foreground">Overall P&L</div>
+        <div className={cn("text-xl font-bold mt-1", isUp ? "text-green-600" : "text-red-600")}>
+          {isUp ? '+' : '-'}{formatMoney(currency, Math.abs(summary.overallProfitLoss))}
+          <span className="ml-2 text-sm">({summary.overallProfitLossPercent.toFixed(2)}%)</span>
+        </div>
+        {summary.totalCharges > 0 && (
+          <div className="text-xs text-muted-foreground mt-1">
+            Net {summary.netProfitLoss >= 0 ? '+' : '-'}{formatMoney(currency, Math.abs(summary.netProfitLoss))}
+            {' '}after {formatMoney(currency, summary.totalCharges)} charges
+          </div>
+        )}
+      </Card>
+      <Card className="p-4">
+        <div className="text-sm text-muted-foreground">Win Rate ({summary.closedPositions} closed)</div>
+        <div className="text-xl font-bold mt-1">
+          {summary.closedPositions > 0 ? `${summary.winRate.toFixed(0)}%` : '-'}
+        </div>
+      </Card>
+    </div>
+  );
+}
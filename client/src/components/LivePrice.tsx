@@ -2,9 +2,14 @@
 
 import useSWR from "swr";
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { ArrowUp, ArrowDown, AlertCircle } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useState, useEffect } from "react";
+import { usePriceStream } from "@/hooks/use-price-stream";
+import { useMarketStatus } from "@/hooks/use-market-status";
+import type { StockChartData, StockData } from "@/types/stocks";
+import { getCurrencySymbol } from "@/lib/format";
 
 interface LivePriceProps {
   symbol: string;
@@ -14,10 +19,18 @@ export default function LivePrice({ symbol }: LivePriceProps) {
   const [retryCount, setRetryCount] = useState(0);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
 
-  const { data, error, isLoading, mutate } = useSWR(
-    symbol ? `/api/stock/${symbol}` : null,
+  // Pushed prices replace polling while the socket is up
+  const { quotes: streamedQuotes, connected } = usePriceStream([symbol]);
+  const streamed = connected ? streamedQuotes[symbol] : undefined;
+
+  // Nothing moves while the symbol's market is closed
+  const { isOpen } = useMarketStatus();
+  const marketOpen = isOpen(symbol);
+
+  const { data, error, isLoading, mutate } = useSWR<StockChartData>(
+    symbol ? `/api/stock/${encodeURIComponent(symbol)}` : null,
     {
-      refreshInterval: 10000,
+      refreshInterval: connected || !marketOpen ? 0 : 10000,
       dedupingInterval: 5000,
       errorRetryCount: 3,
       errorRetryInterval: 5000,
@@ -79,8 +92,7 @@ export default function LivePrice({ symbol }: LivePriceProps) {
     );
   }
 
-  const result = data?.chart?.result?.[0];
-  if (!result?.meta) {
+  if (!data || typeof data.price !== 'number') {
     return (
       <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
         <div className="flex items-center gap-2 text-destructive">
@@ -91,16 +103,28 @@ export default function LivePrice({ symbol }: LivePriceProps) {
     );
   }
 
-  const meta = result.meta;
-  const currentPrice = Number(meta.regularMarketPrice);
-  const previousClose = Number(meta.previousClose);
-  const priceChange = currentPrice - previousClose;
-  const priceChangePercent = (priceChange / previousClose) * 100;
-  const formattedCurrency = symbol.endsWith('.NS') ? '₹' : '$';
+  const quote: StockData = streamed ?? data;
+  const currentPrice = quote.price;
+  const priceChange = quote.change;
+  const priceChangePercent = quote.percentChange;
+  const formattedCurrency = getCurrencySymbol(symbol);
+  const isClosed = quote.marketState === 'CLOSED';
 
   return (
     <div>
-      <div className="text-sm text-muted-foreground mb-1">Current Price</div>
+      <div className="flex items-center justify-between text-sm text-muted-foreground mb-1">
+        <span>Current Price</span>
+        {isClosed ? (
+          <Badge variant="secondary" className="px-2 py-0 text-[10px]">
+            As of last close
+          </Badge>
+        ) : connected && (
+          <span className="flex items-center gap-1 text-xs">
+            <span className="h-2 w-2 rounded-full bg-green-500" />
+            Live
+          </span>
+        )}
+      </div>
       <div className="text-3xl font-bold">
         {formattedCurrency}{currentPrice.toFixed(2)}
       </div>
@@ -110,6 +134,11 @@ export default function LivePrice({ symbol }: LivePriceProps) {
           {formattedCurrency}{Math.abs(priceChange).toFixed(2)} ({Math.abs(priceChangePercent).toFixed(2)}%)
         </span>
       </div>
+      {!streamed && data.stale && (
+        <div className="text-xs text-muted-foreground mt-2">
+          Showing cached price from {data.age}s ago
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,87 @@
+import useSWR from "swr";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import Sparkline from "@/components/Sparkline";
+import { ArrowUp, ArrowDown, AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getCurrencySymbol } from "@/lib/format";
+import { useMarketStatus } from "@/hooks/use-market-status";
+import type { IndicesResponse } from "@/types/api";
+import type { IndexOverview } from "@/types/stocks";
+
+export default function MarketOverview() {
+  // Stop polling once every market has closed
+  const { markets } = useMarketStatus();
+  const anyOpen = markets.length === 0 || markets.some(status => status.isOpen);
+  const { data, error, isLoading } = useSWR<IndicesResponse>("/api/indices", {
+    refreshInterval: anyOpen ? 10000 : 0
+  });
+
+  if (isLoading) {
+    return (
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {[...Array(4)].map((_, i) => (
+          <Card key={i} className="p-4">
+            <Skeleton className="h-4 w-20 mb-2" />
+            <Skeleton className="h-6 w-28 mb-2" />
+            <Skeleton className="h-10 w-full" />
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (error || !data || data.indices.length === 0) {
+    return (
+      <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
+        <div className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error?.info?.details || "Market overview is unavailable"}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+      {data.indices.map(index => (
+        <IndexCard key={index.symbol} index={index} />
+      ))}
+    </div>
+  );
+}
+
+function IndexCard({ index }: { index: IndexOverview }) {
+  const isUp = index.change >= 0;
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">{index.name}</span>
+        {index.marketState === 'CLOSED' && (
+          <Badge variant="secondary" className="px-2 py-0 text-[10px]">
+            Last close
+          </Badge>
+        )}
+      </div>
+      <div className="text-xl font-bold mt-1">
+        {getCurrencySymbol(index.symbol)}{index.price.toLocaleString(undefined, {
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2
+        })}
+      </div>
+      <div className={cn("flex items-center text-sm", isUp ? "text-green-600" : "text-red-600")}>
+        {isUp ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+        <span className="ml-1">
+          {Math.abs(index.change).toFixed(2)} ({Math.abs(index.percentChange).toFixed(2)}%)
+        </span>
+      </div>
+      <Sparkline
+        closes={index.sparkline}
+        isUp={isUp}
+        className="mt-2"
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from "react";
+import useSWR from "swr";
+import { ArrowUp, ArrowDown, GripVertical, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import Sparkline from "@/components/Sparkline";
+import { useToast } from "@/hooks/use-toast";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { useLiveQuotes } from "@/hooks/use-live-quotes";
+import { useMarketStatus } from "@/hooks/use-market-status";
+import { cn } from "@/lib/utils";
+import { getCurrencySymbol } from "@/lib/format";
+import type { SparklinesResponse } from "@/types/api";
+import type { StockData } from "@/types/stocks";
+
+interface PinnedSymbolGridProps {
+  selectedSymbol: string;
+  onSelect: (symbol: string) => void;
+}
+
+interface PinnedSymbolCardProps {
+  symbol: string;
+  quote?: StockData;
+  sparkline?: number[];
+  selected: boolean;
+  dragging: boolean;
+  dropTarget: boolean;
+  onSelect: () => void;
+  onRemove: () => void;
+  onDragStart: () => void;
+  onDragOver: () => void;
+  onDrop: () => void;
+  onDragEnd: () => void;
+}
+
+function PinnedSymbolCard({
+  symbol,
+  quote,
+  sparkline,
+  selected,
+  dragging,
+  dropTarget,
+  onSelect,
+  onRemove,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd
+}: PinnedSymbolCardProps) {
+  const isUp = (quote?.change ?? 0) >= 0;
+  const currency = getCurrencySymbol(symbol);
+
+  return (
+    <Card
+      role="button"
+      tabIndex={0}
+      draggable
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        onDragStart();
+      }}
+      onDragOver={(e) => {
+        e.preventDefault();
+        onDragOver();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        onDrop();
+      }}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "group p-3 cursor-pointer transition-colors hover:bg-muted/50",
+        selected && "ring-2 ring-primary",
+        dragging && "opacity-50",
+        dropTarget && "border-primary border-dashed"
+      )}
+    >
+      <div className="flex items-center justify-between gap-1">
+        <div className="flex items-center gap-1 min-w-0">
+          <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+          <span className="truncate text-sm font-medium">{symbol}</span>
+        </div>
+        <div className="flex items-center gap-1">
+          {quote?.marketState === 'CLOSED' && (
+            <Badge variant="secondary" className="px-2 py-0 text-[10px]">
+              Last close
+            </Badge>
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 opacity-0 group-hover:opacity-100 focus:opacity-100"
+            aria-label={`Unpin ${symbol}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove();
+            }}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {quote ? (
+        <>
+          <div className="text-lg font-bold mt-1">
+            {currency}{quote.price.toFixed(2)}
+          </div>
+          <div className={cn("flex items-center text-xs", isUp ? "text-green-600" : "text-red-600")}>
+            {isUp ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+            <span className="ml-1">
+              {Math.abs(quote.change).toFixed(2)} ({Math.abs(quote.percentChange).toFixed(2)}%)
+            </span>
+          </div>
+        </>
+      ) : (
+        <div className="space-y-1 mt-1">
+          <Skeleton className="h-6 w-24" />
+          <Skeleton className="h-3 w-20" />
+        </div>
+      )}
+
+      {sparkline && <Sparkline closes={sparkline} isUp={isUp} className="mt-2" />}
+    </Card>
+  );
+}
+
+// Pinned symbols of the live tracker as a grid of mini price cards.
+// Cards can be reordered by dragging; the order is saved with the pins.
+export default function PinnedSymbolGrid({ selectedSymbol, onSelect }: PinnedSymbolGridProps) {
+  const { symbols, unpin, move, canSave } = useWatchlist();
+  const { quotes } = useLiveQuotes(symbols);
+  const { isOpen } = useMarketStatus();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const { toast } = useToast();
+
+  // One request covers every card's sparkline; refreshed while a market
+  // trades. Sorted so reordering the cards does not refetch.
+  const sparklineKey = [...symbols].sort().join(',');
+  const { data: sparklineData } = useSWR<SparklinesResponse>(
+    sparklineKey ? `/api/sparklines?symbols=${encodeURIComponent(sparklineKey)}` : null,
+    { refreshInterval: symbols.some(isOpen) ? 60000 : 0 }
+  );
+  const sparklines = new Map(sparklineData?.sparklines.map(s => [s.symbol, s.sparkline]));
+
+  const reportError = (error: unknown, fallback: string) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback
+    });
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      move(dragIndex, index).catch(error => reportError(error, "Failed to reorder pinned symbols"));
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  if (symbols.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Pin symbols to track them side by side.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+        {symbols.map((symbol, index) => (
+          <PinnedSymbolCard
+            key={symbol}
+            symbol={symbol}
+            quote={quotes[symbol]}
+            sparkline={sparklines.get(symbol)}
+            selected={symbol === selectedSymbol}
+            dragging={index === dragIndex}
+            dropTarget={index === overIndex && index !== dragIndex}
+            onSelect={() => onSelect(symbol)}
+            onRemove={() => unpin(symbol).catch(error => reportError(error, "Failed to unpin symbol"))}
+            onDragStart={() => setDragIndex(index)}
+            onDragOver={() => setOverIndex(index)}
+            onDrop={() => handleDrop(index)}
+            onDragEnd={() => {
+              setDragIndex(null);
+              setOverIndex(null);
+            }}
+          />
+        ))}
+      </div>
+      {!canSave && (
+        <p className="text-xs text-muted-foreground">Sign in to keep pinned symbols after a reload.</p>
+      )}
+    </div>
+  );
+}
@@ -7,13 +7,15 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { format } from "date-fns";
 import { CalendarIcon, Loader2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { formatAmount } from "@/lib/format";
+import { getNextPlannedExit, getOpenQuantity, getStagedTargetPrice, getTradeActions } from "@/lib/trade";
 import { useState } from "react";
-import type { StockEntry } from "@/types/ledger";
+import type { NewSellLot, StockEntry } from "@/types/ledger";
 
 interface SellDetailsDialogProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (sellDetails: Pick<StockEntry, 'dateSell' | 'priceSell'>) => Promise<void>;
+  onSubmit: (lot: NewSellLot) => Promise<void>;
   isLoading?: boolean;
   entry: StockEntry;
 }
@@ -27,6 +29,10 @@ export default function SellDetailsDialog({
 }: SellDetailsDialogProps) {
   const [date, setDate] = useState<Date>(new Date());
   const [error, setError] = useState<string | null>(null);
+  const openQuantity = getOpenQuantity(entry);
+  const action = getTradeActions(entry).close;
+  // The quantity starts at what the scale-out plan books at its next stage
+  const plannedExit = entry.targets.length > 1 ? getNextPlannedExit(entry) : null;
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -35,20 +41,28 @@ export default function SellDetailsDialog({
     try {
       const form = e.currentTarget;
       const formData = new FormData(form);
-      const priceSell = parseFloat(formData.get('priceSell') as string);
+      const price = parseFloat(formData.get('priceSell') as string);
+      const quantity = Number(formData.get('quantity'));
 
-      if (isNaN(priceSell) || priceSell <= 0) {
-        throw new Error('Please enter a valid sell price');
+      if (isNaN(price) || price <= 0) {
+        throw new Error(`Please enter a valid ${action.toLowerCase()} price`);
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new Error('Please enter a valid quantity');
+      }
+      if (quantity > openQuantity) {
+        throw new Error(`Only ${openQuantity} shares are left to ${action.toLowerCase()}`);
       }
 
       await onSubmit({
-        dateSell: date.toISOString(),
-        priceSell
+        date: date.toISOString(),
+        price,
+        quantity
       });
 
       onClose();
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to add sell details');
+      setError(err instanceof Error ? err.message : `Failed to add ${action.toLowerCase()} details`);
     }
   };
 
@@ -63,15 +77,20 @@ export default function SellDetailsDialog({
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[425px]">
         <DialogHeader>
-          <DialogTitle>Add Sell Details</DialogTitle>
+          <DialogTitle>Add {action} Details</DialogTitle>
           <DialogDescription>
-            Add selling details for {entry.stockName} ({entry.symbol})
+            Add {action.toLowerCase()} details for {entry.stockName} ({entry.symbol}). {openQuantity} of {entry.quantity} shares
+            are still open; the position closes once all of them are {action === 'Cover' ? 'covered' : 'sold'}.
+            {plannedExit && (
+              <> The plan books {plannedExit.quantity} shares at
+                T{plannedExit.stage + 1}, {formatAmount(entry.symbol, getStagedTargetPrice(entry, entry.targets[plannedExit.stage]))}.</>
+            )}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="space-y-2">
-            <Label>Sell Date</Label>
+            <Label>{action} Date</Label>
             <Popover>
               <PopoverTrigger asChild>
                 <Button
@@ -102,17 +121,34 @@ export default function SellDetailsDialog({
             </Popover>
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="priceSell">Sell Price</Label>
-            <Input
-              id="priceSell"
-              name="priceSell"
-              type="number"
-              step="0.01"
-              min="0.01"
-              required
-              disabled={isLoading}
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="priceSell">{action} Price</Label>
+              <Input
+                id="priceSell"
+                name="priceSell"
+                type="number"
+                step="0.01"
+                min="0.01"
+                required
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="quantity">Quantity</Label>
+              <Input
+                id="quantity"
+                name="quantity"
+                type="number"
+                step="1"
+                min="1"
+                max={openQuantity}
+                defaultValue={Math.min(plannedExit?.quantity ?? openQuantity, openQuantity)}
+                required
+                disabled={isLoading}
+              />
+            </div>
           </div>
 
           {error && (
@@ -0,0 +1,39 @@
+import { LineChart, Line, YAxis, ResponsiveContainer } from "recharts";
+import { cn } from "@/lib/utils";
+
+interface SparklineProps {
+  closes: number[];
+  // Direction of the move, for the line color; defaults to comparing the
+  // last close with the first
+  isUp?: boolean;
+  className?: string;
+}
+
+const UP_COLOR = "rgb(22 163 74)";
+const DOWN_COLOR = "rgb(220 38 38)";
+
+// Axis-less intraday price line for compact cards
+export default function Sparkline({ closes, isUp, className }: SparklineProps) {
+  if (closes.length < 2) return null;
+
+  const up = isUp ?? closes[closes.length - 1] >= closes[0];
+  const data = closes.map((close, i) => ({ i, close }));
+
+  return (
+    <div className={cn("h-10", className)}>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <YAxis hide domain={['dataMin', 'dataMax']} />
+          <Line
+            type="monotone"
+            dataKey="close"
+            stroke={up ? UP_COLOR : DOWN_COLOR}
+            strokeWidth={1.5}
+            dot={false}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -1,112 +1,554 @@
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { useMemo, useState } from "react";
+import {
+  ComposedChart,
+  Line,
+  Area,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+  type TooltipProps
+} from "recharts";
 import useSWR from "swr";
-import { Card } from "@/components/ui/card";
+import { format } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AlertCircle } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { AlertCircle, ChartArea, ChartCandlestick, ChartLine } from "lucide-react";
+import IndicatorMenu from "@/components/IndicatorMenu";
+import ComparisonMenu from "@/components/ComparisonMenu";
+import ComparisonChart from "@/components/ComparisonChart";
+import { useMarketStatus } from "@/hooks/use-market-status";
+import { INDICATORS, computeIndicator } from "@/lib/indicators";
+import { getCurrencySymbol } from "@/lib/format";
+import type { ComparisonScale } from "@/lib/comparison";
+import { cn } from "@/lib/utils";
+import type { ChartTimeframe, ChartInterval, StockChartData } from "@/types/stocks";
+import type { IndicatorConfig, IndicatorLine } from "@/types/indicators";
 
 interface StockChartProps {
   symbol: string;
 }
 
+interface TimeframeOption {
+  label: string;
+  range: ChartTimeframe;
+  interval: ChartInterval;
+}
+
+const TIMEFRAME_OPTIONS: TimeframeOption[] = [
+  { label: '1D', range: '1d', interval: '1m' },
+  { label: '5D', range: '5d', interval: '15m' },
+  { label: '1M', range: '1mo', interval: '60m' },
+  { label: '6M', range: '6mo', interval: '1d' },
+  { label: '1Y', range: '1y', interval: '1d' },
+  { label: '5Y', range: '5y', interval: '1wk' },
+  { label: 'Max', range: 'max', interval: '1mo' }
+];
+
+type ChartMode = 'line' | 'candle' | 'area';
+
+const CHART_MODES = [
+  { value: 'line', label: 'Line', icon: ChartLine },
+  { value: 'candle', label: 'Candlestick', icon: ChartCandlestick },
+  { value: 'area', label: 'Area', icon: ChartArea }
+] as const;
+
+const COMPARISON_SCALES = [
+  { value: 'rebased', label: '100', title: 'Rebased to 100' },
+  { value: 'percent', label: '%', title: 'Percentage change' }
+] as const;
+
+const UP_COLOR = 'rgb(22 163 74)';
+const DOWN_COLOR = 'rgb(220 38 38)';
+
+// Shared by the price and volume charts so their tooltips and cursors move together
+const CHART_SYNC_ID = 'stock-chart';
+
+interface ChartPoint {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  range: [number, number]; // [low, high], spanned by a candle's wick
+  up: boolean;
+  indicators: Record<string, number | null>; // Indicator values by IndicatorLine key
+}
+
+interface IndicatorSeries {
+  config: IndicatorConfig;
+  lines: IndicatorLine[];
+}
+
+const INTRADAY_INTERVALS: ChartInterval[] = ['1m', '5m', '15m', '30m', '60m'];
+
+// Axis/tooltip label for a timestamp: time of day for intraday data,
+// calendar dates otherwise
+function formatTimestamp(time: number, option: TimeframeOption): string {
+  const date = new Date(time * 1000);
+  if (INTRADAY_INTERVALS.includes(option.interval)) {
+    return option.range === '1d' ? format(date, 'HH:mm') : format(date, 'dd MMM HH:mm');
+  }
+  if (option.range === '5y' || option.range === 'max') {
+    return format(date, 'MMM yyyy');
+  }
+  return format(date, 'dd MMM yy');
+}
+
 export default function StockChart({ symbol }: StockChartProps) {
-  const { data, error, isLoading } = useSWR(`/api/stock/${symbol}`);
+  const [timeframe, setTimeframe] = useState<ChartTimeframe>('1d');
+  const [mode, setMode] = useState<ChartMode>('line');
+  const [hovered, setHovered] = useState<ChartPoint | null>(null);
+  const [indicators, setIndicators] = useState<IndicatorConfig[]>([]);
+  const [compareSymbols, setCompareSymbols] = useState<string[]>([]);
+  const [scale, setScale] = useState<ComparisonScale>('rebased');
+  const option = TIMEFRAME_OPTIONS.find(o => o.range === timeframe) ?? TIMEFRAME_OPTIONS[0];
 
-  if (isLoading) {
+  // Comparison mode replaces the price, indicator and volume charts while
+  // any other symbol is being compared
+  const compared = compareSymbols.filter(s => s !== symbol);
+  const comparing = compared.length > 0;
+
+  const { isOpen } = useMarketStatus();
+  const { data, error, isLoading } = useSWR<StockChartData>(
+    comparing ? null : `/api/stock/${encodeURIComponent(symbol)}?range=${option.range}&interval=${option.interval}`,
+    { refreshInterval: isOpen(symbol) ? 30000 : 0 }
+  );
+
+  const candles = data?.candles;
+  const indicatorSeries = useMemo<IndicatorSeries[]>(
+    () => candles
+      ? indicators.map((config, position) => ({ config, lines: computeIndicator(config, candles, position) }))
+      : [],
+    [candles, indicators]
+  );
+  const overlays = indicatorSeries.filter(({ config }) => INDICATORS[config.type].placement === 'overlay');
+  const panes = indicatorSeries.filter(({ config }) => INDICATORS[config.type].placement === 'pane');
+
+  const header = (
+    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+      <h2 className="text-xl font-semibold">
+        {symbol} {comparing ? 'Comparison' : 'Price History'}
+      </h2>
+      <div className="flex flex-wrap items-center gap-2">
+        <ComparisonMenu symbol={symbol} compareSymbols={compared} onChange={setCompareSymbols} />
+        {comparing ? (
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={scale}
+            onValueChange={(value) => value && setScale(value as ComparisonScale)}
+          >
+            {COMPARISON_SCALES.map(({ value, label, title }) => (
+              <ToggleGroupItem key={value} value={value} aria-label={title} title={title}>
+                {label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        ) : (
+          <>
+            <IndicatorMenu indicators={indicators} onChange={setIndicators} />
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={mode}
+              onValueChange={(value) => value && setMode(value as ChartMode)}
+            >
+              {CHART_MODES.map(({ value, label, icon: Icon }) => (
+                <ToggleGroupItem key={value} value={value} aria-label={`${label} chart`} title={label}>
+                  <Icon className="h-4 w-4" />
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </>
+        )}
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={timeframe}
+          onValueChange={(value) => value && setTimeframe(value as ChartTimeframe)}
+        >
+          {TIMEFRAME_OPTIONS.map(o => (
+            <ToggleGroupItem key={o.range} value={o.range} aria-label={`Show ${o.label}`}>
+              {o.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    </div>
+  );
+
+  if (comparing) {
     return (
-      <div>
-        <h2 className="text-xl font-semibold mb-4">{symbol} Price History</h2>
-        <Skeleton className="w-full h-[400px]" />
+      <div className="w-full">
+        {header}
+        <ComparisonChart
+          symbols={[symbol, ...compared]}
+          range={option.range}
+          interval={option.interval}
+          scale={scale}
+          formatTime={(time) => formatTimestamp(time, option)}
+        />
       </div>
     );
   }
 
-  if (error || !data?.chart?.result?.[0]) {
+  if (isLoading) {
     return (
-      <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
-        <div className="flex items-center gap-2 text-destructive">
-          <AlertCircle className="h-4 w-4" />
-          <span>Error loading chart data</span>
-        </div>
-        <p className="text-sm text-muted-foreground mt-1">
-          {error?.response?.data?.details || error?.message || "Unable to load price history"}
-        </p>
+      <div>
+        {header}
+        <Skeleton className="w-full h-[400px]" />
       </div>
     );
   }
 
-  const chartData = data.chart.result[0];
-  const { timestamp, indicators } = chartData;
-  
-  if (!Array.isArray(timestamp) || !indicators?.quote?.[0]?.close) {
+  if (error || !data) {
     return (
-      <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
-        <div className="flex items-center gap-2 text-destructive">
-          <AlertCircle className="h-4 w-4" />
-          <span>Invalid chart data</span>
+      <div>
+        {header}
+        <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span>Error loading chart data</span>
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {error?.info?.details || error?.message || "Unable to load price history"}
+          </p>
         </div>
-        <p className="text-sm text-muted-foreground mt-1">
-          Price history data is not available
-        </p>
       </div>
     );
   }
 
-  const prices = indicators.quote[0].close;
-  const formattedData = timestamp
-    .map((time: number, index: number) => {
-      const price = prices[index];
-      if (typeof price !== 'number' || isNaN(price)) return null;
-      
-      return {
-        date: new Date(time * 1000).toLocaleDateString(),
-        price: price.toFixed(2)
-      };
-    })
-    .filter((item): item is { date: string; price: string } => item !== null);
-
-  if (formattedData.length === 0) {
+  const chartData: ChartPoint[] = (data.candles ?? []).map((candle, index) => ({
+    time: candle.time,
+    open: candle.open,
+    high: candle.high,
+    low: candle.low,
+    close: Number(candle.close.toFixed(2)),
+    volume: candle.volume,
+    range: [candle.low, candle.high],
+    up: candle.close >= candle.open,
+    indicators: Object.fromEntries(indicatorSeries.flatMap(({ lines }) => (
+      lines.map(line => [line.key, line.values[index]])
+    )))
+  }));
+
+  if (chartData.length === 0) {
     return (
-      <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
-        <div className="flex items-center gap-2 text-destructive">
-          <AlertCircle className="h-4 w-4" />
-          <span>No valid price data</span>
+      <div>
+        {header}
+        <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
+          <div className="flex items-center gap-2 text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            <span>No valid price data</span>
+          </div>
         </div>
       </div>
     );
   }
 
+  const currency = getCurrencySymbol(symbol);
+  const hasVolume = chartData.some(point => point.volume > 0);
+  const overlayLines = overlays.flatMap(({ lines }) => lines);
+
   return (
-    <div className="h-[400px] w-full">
-      <h2 className="text-xl font-semibold mb-4">{symbol} Price History</h2>
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={formattedData}>
-          <XAxis 
-            dataKey="date"
-            tick={{ fontSize: 12 }}
-            interval="preserveStartEnd"
-          />
-          <YAxis 
-            domain={['auto', 'auto']}
-            tick={{ fontSize: 12 }}
-            width={60}
-          />
-          <Tooltip
-            contentStyle={{
-              backgroundColor: 'hsl(var(--background))',
-              border: '1px solid hsl(var(--border))'
+    <div className="w-full">
+      {header}
+      {overlays.length > 0 && (
+        <IndicatorLegend lines={overlays.map(({ lines }) => lines[0])} />
+      )}
+      <div className="h-[320px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart
+            data={chartData}
+            syncId={CHART_SYNC_ID}
+            onMouseMove={(state) => {
+              const point = state?.activePayload?.[0]?.payload as ChartPoint | undefined;
+              setHovered(point ?? null);
             }}
-            labelStyle={{ color: 'hsl(var(--foreground))' }}
-          />
-          <Line
-            type="monotone"
-            dataKey="price"
-            stroke="hsl(var(--primary))"
-            strokeWidth={2}
-            dot={false}
-            activeDot={{ r: 4 }}
-          />
-        </LineChart>
-      </ResponsiveContainer>
+            onMouseLeave={() => setHovered(null)}
+          >
+            <defs>
+              <linearGradient id="price-area" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="0%" stopColor="hsl(var(--primary))" stopOpacity={0.3} />
+                <stop offset="100%" stopColor="hsl(var(--primary))" stopOpacity={0} />
+              </linearGradient>
+            </defs>
+            <XAxis dataKey="time" hide />
+            <YAxis 
+              domain={['auto', 'auto']}
+              tick={{ fontSize: 12 }}
+              width={60}
+            />
+            <Tooltip
+              cursor={{ stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '3 3' }}
+              content={<OhlcvTooltip option={option} currency={currency} overlays={overlayLines} />}
+            />
+            {hovered && (
+              <ReferenceLine
+                y={hovered.close}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="3 3"
+              />
+            )}
+            {mode === 'line' && (
+              <Line
+                type="monotone"
+                dataKey="close"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                dot={false}
+                activeDot={{ r: 4 }}
+                isAnimationActive={false}
+              />
+            )}
+            {mode === 'area' && (
+              <Area
+                type="monotone"
+                dataKey="close"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                fill="url(#price-area)"
+                activeDot={{ r: 4 }}
+                isAnimationActive={false}
+              />
+            )}
+            {mode === 'candle' && (
+              <Bar dataKey="range" shape={CandleShape} isAnimationActive={false} />
+            )}
+            {overlayLines.map(line => (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={(point: ChartPoint) => point.indicators[line.key]}
+                name={line.label}
+                stroke={line.color}
+                strokeWidth={1.5}
+                strokeDasharray={/ (upper|lower)$/.test(line.label) ? '4 2' : undefined}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+      {panes.map(({ config, lines }) => (
+        <IndicatorPane
+          key={config.id}
+          data={chartData}
+          lines={lines}
+          levels={INDICATORS[config.type].levels}
+          hovered={hovered}
+        />
+      ))}
+      <div className="h-[100px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} syncId={CHART_SYNC_ID}>
+            <XAxis 
+              dataKey="time"
+              tick={{ fontSize: 12 }}
+              tickFormatter={(time: number) => formatTimestamp(time, option)}
+              interval="preserveStartEnd"
+              minTickGap={40}
+            />
+            <YAxis
+              tick={{ fontSize: 10 }}
+              width={60}
+              tickFormatter={formatVolume}
+            />
+            <Tooltip
+              cursor={{ stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '3 3' }}
+              content={() => null}
+            />
+            {hasVolume && (
+              <Bar dataKey="volume" isAnimationActive={false}>
+                {chartData.map(point => (
+                  <Cell
+                    key={point.time}
+                    fill={point.up ? UP_COLOR : DOWN_COLOR}
+                    fillOpacity={0.5}
+                  />
+                ))}
+              </Bar>
+            )}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+// Compact volume label, e.g. 1.2M
+function formatVolume(volume: number): string {
+  if (volume >= 1e9) return `${(volume / 1e9).toFixed(1)}B`;
+  if (volume >= 1e6) return `${(volume / 1e6).toFixed(1)}M`;
+  if (volume >= 1e3) return `${(volume / 1e3).toFixed(1)}K`;
+  return String(volume);
+}
+
+// Props recharts lays a bar out with, all optional as in its shape props
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartPoint;
+}
+
+// Candle drawn inside the bar recharts lays out for the [low, high] range:
+// the bar spans the wick, the body is placed by scaling open/close into it
+function CandleShape({ x = 0, y = 0, width = 0, height = 0, payload }: CandleShapeProps) {
+  if (!payload) return <g />;
+  const { open, close, high, low, up } = payload;
+  const color = up ? UP_COLOR : DOWN_COLOR;
+
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const toY = (price: number) => high === low ? top : top + ((high - price) / (high - low)) * span;
+
+  const bodyTop = toY(Math.max(open, close));
+  const bodyHeight = Math.max(1, toY(Math.min(open, close)) - bodyTop);
+  const center = x + width / 2;
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+      <rect
+        x={x + width * 0.1}
+        y={bodyTop}
+        width={Math.max(1, width * 0.8)}
+        height={bodyHeight}
+        fill={color}
+      />
+    </g>
+  );
+}
+
+// Indicator chart drawn under the price chart, sharing its cursor
+function IndicatorPane({ data, lines, levels = [], hovered }: {
+  data: ChartPoint[];
+  lines: IndicatorLine[];
+  levels?: number[];
+  hovered: ChartPoint | null;
+}) {
+  return (
+    <div className="mt-2">
+      <IndicatorLegend lines={lines} point={hovered} />
+      <div className="h-[100px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} syncId={CHART_SYNC_ID}>
+            <XAxis dataKey="time" hide />
+            <YAxis
+              domain={['auto', 'auto']}
+              tick={{ fontSize: 10 }}
+              width={60}
+              tickFormatter={(value: number) => value.toFixed(value >= 100 ? 0 : 2)}
+            />
+            <Tooltip
+              cursor={{ stroke: 'hsl(var(--muted-foreground))', strokeDasharray: '3 3' }}
+              content={() => null}
+            />
+            {levels.map(level => (
+              <ReferenceLine
+                key={level}
+                y={level}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="2 2"
+                strokeOpacity={0.6}
+              />
+            ))}
+            {lines.map(line => line.style === 'histogram' ? (
+              <Bar
+                key={line.key}
+                dataKey={(point: ChartPoint) => point.indicators[line.key]}
+                name={line.label}
+                isAnimationActive={false}
+              >
+                {data.map(point => (
+                  <Cell
+                    key={point.time}
+                    fill={(point.indicators[line.key] ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR}
+                    fillOpacity={0.5}
+                  />
+                ))}
+              </Bar>
+            ) : (
+              <Line
+                key={line.key}
+                type="monotone"
+                dataKey={(point: ChartPoint) => point.indicators[line.key]}
+                name={line.label}
+                stroke={line.color}
+                strokeWidth={1.5}
+                dot={false}
+                activeDot={false}
+                isAnimationActive={false}
+              />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+// Colored labels of the plotted lines, with their values at `point` if given
+function IndicatorLegend({ lines, point }: { lines: IndicatorLine[]; point?: ChartPoint | null }) {
+  return (
+    <div className="flex flex-wrap gap-3 text-xs mb-1">
+      {lines.filter(line => line.style !== 'histogram').map(line => {
+        const value = point?.indicators[line.key];
+        return (
+          <span key={line.key} className="flex items-center gap-1">
+            <span className="h-0.5 w-3" style={{ backgroundColor: line.color }} />
+            {line.label.replace(/ (upper|middle|lower)$/, '')}
+            {value != null && <span className="text-muted-foreground">{value.toFixed(2)}</span>}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+function OhlcvTooltip({
+  active,
+  payload,
+  option,
+  currency,
+  overlays = []
+}: TooltipProps<number, string> & { option: TimeframeOption; currency: string; overlays?: IndicatorLine[] }) {
+  const point = payload?.[0]?.payload as ChartPoint | undefined;
+  if (!active || !point) return null;
+
+  const rows = [
+    { label: 'O', value: `${currency}${point.open.toFixed(2)}` },
+    { label: 'H', value: `${currency}${point.high.toFixed(2)}` },
+    { label: 'L', value: `${currency}${point.low.toFixed(2)}` },
+    { label: 'C', value: `${currency}${point.close.toFixed(2)}` },
+    { label: 'V', value: point.volume.toLocaleString() },
+    ...overlays
+      .filter(line => point.indicators[line.key] != null)
+      .map(line => ({ label: line.label, value: `${currency}${point.indicators[line.key]!.toFixed(2)}` }))
+  ];
+
+  return (
+    <div className="rounded-md border bg-background p-2 text-xs shadow-sm">
+      <div className="font-medium mb-1">{formatTimestamp(point.time, option)}</div>
+      <div className="grid grid-cols-[auto_auto] gap-x-3">
+        {rows.map(row => (
+          <div key={row.label} className="contents">
+            <span className="text-muted-foreground">{row.label}</span>
+            <span className={cn("text-right", row.label === 'C' && (point.up ? "text-green-600" : "text-red-600"))}>
+              {row.value}
+            </span>
+          </div>
+        ))}
+      </div>
     </div>
   );
 }
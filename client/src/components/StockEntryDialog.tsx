@@ -25,22 +25,134 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { format } from "date-fns";
-import { CalendarIcon, Loader2, LogIn } from "lucide-react";
+import { CalendarIcon, Loader2, LogIn, Plus, X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { BROKER_SCHEDULES } from "@/lib/charges";
+import { getCurrencySymbol } from "@/lib/format";
+import { getGainPercent, getPriceAtGain, getTradeActions, summarizeBuyLots, summarizeTargets } from "@/lib/trade";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/contexts/AuthContext";
-import type { NewStockEntry } from "@/types/ledger";
+import type {
+  BuyLot,
+  NewStockEntry,
+  StagedTarget,
+  StockEntry,
+  TradeDirection,
+  TradeType,
+  TrailingStop
+} from "@/types/ledger";
+
+// Broker option keeping the schedule an edited entry already has
+const CURRENT_BROKER = 'current';
+
+// A target or stop-loss as typed, either as a percentage or a price
+interface LevelInput {
+  basis: 'percent' | 'price';
+  value: string;
+}
+
+function toLevelInput(percent: number | undefined, price: number | undefined): LevelInput {
+  return price !== undefined
+    ? { basis: 'price', value: String(price) }
+    : { basis: 'percent', value: percent !== undefined ? String(percent) : '' };
+}
+
+// One stage of the scale-out plan as typed
+interface TargetInput {
+  level: LevelInput;
+  allocation: string;
+}
+
+// A new entry starts with a single target booking the whole position
+const NEW_PLAN: TargetInput[] = [{ level: toLevelInput(undefined, undefined), allocation: '100' }];
+
+// Trailing stop option for a fixed stop-loss
+const NO_TRAIL = 'none';
+
+// Percentage and price shown for a level: the one typed, and the other
+// converted from it at the entry price once that is known
+function getLevelFields(
+  level: LevelInput,
+  entryPrice: number,
+  toPrice: (percent: number) => number,
+  toPercent: (price: number) => number
+): { percent: string; price: string } {
+  const value = parseFloat(level.value);
+  if (level.basis === 'percent') {
+    return { percent: level.value, price: entryPrice > 0 && !isNaN(value) ? toPrice(value).toFixed(2) : '' };
+  }
+  return { percent: entryPrice > 0 && !isNaN(value) ? toPercent(value).toFixed(2) : '', price: level.value };
+}
 
 interface StockEntryDialogProps {
   open: boolean;
   onClose: () => void;
   onSubmit: (entry: NewStockEntry) => Promise<void>;
   isLoading?: boolean;
+  // Existing entry to edit; the form starts from its values
+  entry?: StockEntry;
 }
 
-export default function StockEntryDialog({ open, onClose, onSubmit, isLoading = false }: StockEntryDialogProps) {
-  const [date, setDate] = useState<Date>(new Date());
-  const [selectedStock, setSelectedStock] = useState<{ symbol: string; name: string } | null>(null);
+export default function StockEntryDialog({ open, onClose, onSubmit, isLoading = false, entry: existingEntry }: StockEntryDialogProps) {
+  const isEditing = !!existingEntry;
+  // A single purchase is edited in place; a position built from several is
+  // shown as its lots, which can be removed but are added from the ledger
+  const firstLot = existingEntry?.buyLots[0];
+  const [lots, setLots] = useState<BuyLot[]>(existingEntry?.buyLots ?? []);
+  const hasManyLots = (existingEntry?.buyLots.length ?? 0) > 1;
+  const lotSummary = summarizeBuyLots(lots);
+  const currency = existingEntry ? getCurrencySymbol(existingEntry.symbol) : '';
+  const [date, setDate] = useState<Date>(firstLot ? new Date(firstLot.date) : new Date());
+  // Controlled so the entry fields can say whether they buy or short
+  const [direction, setDirection] = useState<TradeDirection>(existingEntry?.direction ?? 'Long');
+  const openingAction = getTradeActions({ direction }).open;
+  // Levels convert live between percentages and prices, so the entry price
+  // is tracked as it is typed
+  const [priceInput, setPriceInput] = useState(firstLot ? String(firstLot.price) : '');
+  const [targets, setTargets] = useState<TargetInput[]>(
+    existingEntry?.targets.map(target => ({
+      level: toLevelInput(target.percent, target.price),
+      allocation: String(target.allocation)
+    })) ?? NEW_PLAN
+  );
+  const [stopLoss, setStopLoss] = useState<LevelInput>(
+    toLevelInput(existingEntry?.stopLossPercent, existingEntry?.stopLossPrice)
+  );
+  // Controlled so the fields of the chosen rule can be shown
+  const existingTrail = existingEntry?.trailingStop;
+  const [trailType, setTrailType] = useState<TrailingStop['type'] | typeof NO_TRAIL>(existingTrail?.type ?? NO_TRAIL);
+  const entryPrice = hasManyLots ? lotSummary.priceBuy : parseFloat(priceInput);
+  const entryPosition = { direction, priceBuy: entryPrice };
+  const targetFields = targets.map(target => getLevelFields(
+    target.level,
+    entryPrice,
+    percent => getPriceAtGain(entryPosition, percent),
+    price => getGainPercent(entryPosition, price)
+  ));
+  const stopLossFields = getLevelFields(
+    stopLoss,
+    entryPrice,
+    percent => getPriceAtGain(entryPosition, -percent),
+    price => -getGainPercent(entryPosition, price)
+  );
+  // To the final target, which the entry's risk/reward is measured against
+  const riskReward = parseFloat(targetFields[targetFields.length - 1].percent) / parseFloat(stopLossFields.percent);
+  const allocated = targets.reduce((sum, target) => sum + (parseFloat(target.allocation) || 0), 0);
+
+  const updateTarget = (index: number, update: Partial<TargetInput>) => {
+    setTargets(targets.map((target, i) => i === index ? { ...target, ...update } : target));
+  };
+
+  // A new stage starts with whatever the plan leaves unallocated
+  const addTarget = () => {
+    setTargets([
+      ...targets,
+      { level: toLevelInput(undefined, undefined), allocation: allocated < 100 ? String(100 - allocated) : '' }
+    ]);
+  };
+  const [selectedStock, setSelectedStock] = useState<{ symbol: string; name: string } | null>(
+    existingEntry ? { symbol: existingEntry.symbol, name: existingEntry.stockName } : null
+  );
   const [isSigningIn, setIsSigningIn] = useState(false);
   const { toast } = useToast();
   const { user, signIn } = useAuth();
@@ -49,6 +161,10 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
     form.reset();
     setSelectedStock(null);
     setDate(new Date());
+    setPriceInput('');
+    setTargets(NEW_PLAN);
+    setStopLoss(toLevelInput(undefined, undefined));
+    setTrailType(NO_TRAIL);
   };
 
   const handleSignIn = async () => {
@@ -76,7 +192,7 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
 
     try {
       if (!user) {
-        throw new Error('You must be signed in to add entries');
+        throw new Error(`You must be signed in to ${isEditing ? 'edit' : 'add'} entries`);
       }
 
       if (!selectedStock) {
@@ -84,20 +200,82 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
       }
 
       const formData = new FormData(form);
-      
-      // Validate numeric fields
-      const priceBuy = parseFloat(formData.get('priceBuy') as string);
-      const targetPercent = parseFloat(formData.get('targetPercent') as string);
-      const stopLossPercent = parseFloat(formData.get('stopLossPercent') as string);
-
-      if (isNaN(priceBuy) || priceBuy <= 0) {
-        throw new Error('Please enter a valid buy price');
+
+      let buyLots = lots;
+      if (!hasManyLots) {
+        const price = parseFloat(formData.get('priceBuy') as string);
+        const quantity = Number(formData.get('quantity'));
+        const fees = formData.get('fees') ? parseFloat(formData.get('fees') as string) : 0;
+
+        if (isNaN(price) || price <= 0) {
+          throw new Error('Please enter a valid buy price');
+        }
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+          throw new Error('Please enter a valid quantity');
+        }
+        if (isNaN(fees) || fees < 0) {
+          throw new Error('Please enter valid fees');
+        }
+        buyLots = [{ date: date.toISOString(), price, quantity, fees }];
+      }
+
+      // A level typed as a price is stored as one, with its percentage at
+      // the entry price for reference
+      const position = summarizeBuyLots(buyLots);
+      const atEntry = { direction, priceBuy: position.priceBuy };
+      const stopLossPrice = stopLoss.basis === 'price' ? parseFloat(stopLoss.value) : undefined;
+      const stopLossPercent = stopLossPrice !== undefined
+        ? -getGainPercent(atEntry, stopLossPrice)
+        : parseFloat(stopLoss.value);
+
+      const plan: StagedTarget[] = targets.map((target, index) => {
+        const name = `T${index + 1}`;
+        const price = target.level.basis === 'price' ? parseFloat(target.level.value) : undefined;
+        const percent = price !== undefined ? getGainPercent(atEntry, price) : parseFloat(target.level.value);
+        const allocation = parseFloat(target.allocation);
+
+        if (isNaN(percent) || percent <= 0) {
+          throw new Error(price !== undefined
+            ? `${name} must be ${direction === 'Short' ? 'below' : 'above'} the ${openingAction.toLowerCase()} price`
+            : `Please enter a valid ${name} percentage`);
+        }
+        if (isNaN(allocation) || allocation <= 0) {
+          throw new Error(`Please enter the share of the position to book at ${name}`);
+        }
+        return { percent, price, allocation };
+      });
+      if (plan.some((target, index) => index > 0 && target.percent <= plan[index - 1].percent)) {
+        throw new Error('Targets must run from the nearest to the furthest');
       }
-      if (isNaN(targetPercent) || targetPercent <= 0) {
-        throw new Error('Please enter a valid target percentage');
+      if (Math.abs(plan.reduce((sum, target) => sum + target.allocation, 0) - 100) > 0.01) {
+        throw new Error('Target allocations must add up to 100%');
       }
+
       if (isNaN(stopLossPercent) || stopLossPercent <= 0) {
-        throw new Error('Please enter a valid stop loss percentage');
+        throw new Error(stopLossPrice !== undefined
+          ? `The stop loss price must be ${direction === 'Short' ? 'above' : 'below'} the ${openingAction.toLowerCase()} price`
+          : 'Please enter a valid stop loss percentage');
+      }
+
+      let trailingStop: TrailingStop | undefined;
+      if (trailType === 'percent') {
+        const percent = parseFloat(formData.get('trailPercent') as string);
+        if (isNaN(percent) || percent <= 0) {
+          throw new Error('Please enter a valid trailing percentage');
+        }
+        trailingStop = { type: 'percent', percent };
+      } else if (trailType === 'atr') {
+        const multiple = parseFloat(formData.get('atrMultiple') as string);
+        const period = Number(formData.get('atrPeriod'));
+        if (isNaN(multiple) || multiple <= 0) {
+          throw new Error('Please enter a valid ATR multiple');
+        }
+        if (!Number.isInteger(period) || period <= 0) {
+          throw new Error('Please enter a valid ATR period');
+        }
+        trailingStop = { type: 'atr', multiple, period };
+      } else if (trailType === 'breakeven') {
+        trailingStop = { type: 'breakeven' };
       }
 
       const reason = (formData.get('reason') as string)?.trim();
@@ -120,18 +298,30 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
         throw new Error('Please select a confidence level');
       }
 
+      const tradeType = formData.get('tradeType') as TradeType;
+      const brokerKey = formData.get('broker') as string;
+      const broker = brokerKey === CURRENT_BROKER ? existingEntry?.broker : BROKER_SCHEDULES[brokerKey];
+      if (!broker) {
+        throw new Error('Please select a broker');
+      }
+
       const entry: NewStockEntry = {
         stockName: selectedStock.name,
         symbol: selectedStock.symbol,
-        dateBuy: date.toISOString(),
-        priceBuy,
-        targetPercent,
+        direction,
+        ...position,
+        ...summarizeTargets(plan),
         stopLossPercent,
+        stopLossPrice,
+        trailingStop,
         reason,
         chartLink: chartLink || undefined,
         source,
         confidence,
-        addedBy: {
+        tradeType,
+        broker,
+        // Edits keep the original author
+        addedBy: existingEntry?.addedBy ?? {
           uid: user.uid,
           email: user.email!,
           displayName: user.displayName
@@ -147,7 +337,7 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
       toast({
         variant: "destructive",
         title: "Error",
-        description: error instanceof Error ? error.message : 'Failed to add stock entry'
+        description: error instanceof Error ? error.message : `Failed to ${isEditing ? 'update' : 'add'} stock entry`
       });
     }
   };
@@ -165,7 +355,7 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
           <DialogHeader>
             <DialogTitle>Authentication Required</DialogTitle>
             <DialogDescription>
-              You must be signed in to add entries to the stock ledger.
+              You must be signed in to {isEditing ? 'edit' : 'add'} entries in the stock ledger.
             </DialogDescription>
           </DialogHeader>
           <div className="flex flex-col gap-4 mt-4">
@@ -194,9 +384,11 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add Stock Entry</DialogTitle>
+          <DialogTitle>{isEditing ? 'Edit Stock Entry' : 'Add Stock Entry'}</DialogTitle>
           <DialogDescription>
-            Add a new stock to your ledger. Fill in the details below.
+            {isEditing
+              ? 'Update the details of this ledger entry.'
+              : 'Add a new stock to your ledger. Fill in the details below.'}
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -214,50 +406,115 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
             )}
           </div>
 
-          <div className="space-y-2">
-            <Label>Buy Date</Label>
-            <Popover>
-              <PopoverTrigger asChild>
-                <Button
-                  variant="outline"
-                  className={cn(
-                    "w-full justify-start text-left font-normal",
-                    !date && "text-muted-foreground"
-                  )}
-                  disabled={isLoading}
-                >
-                  <CalendarIcon className="mr-2 h-4 w-4" />
-                  {date ? format(date, "PPP") : <span>Pick a date</span>}
-                </Button>
-              </PopoverTrigger>
-              <PopoverContent className="w-auto p-0" align="start">
-                <Calendar
-                  mode="single"
-                  selected={date}
-                  onSelect={(date) => date && setDate(date)}
-                  initialFocus
-                />
-              </PopoverContent>
-            </Popover>
-          </div>
-
-          <div className="grid grid-cols-2 gap-4">
+          {hasManyLots ? (
             <div className="space-y-2">
-              <Label htmlFor="priceBuy">Buy Price</Label>
-              <Input
-                id="priceBuy"
-                name="priceBuy"
-                type="number"
-                step="0.01"
-                min="0.01"
-                required
-                disabled={isLoading}
-              />
+              <Label>{openingAction} Lots</Label>
+              <div className="rounded-md border divide-y text-sm">
+                {lots.map((lot, index) => (
+                  <div key={index} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                    <span>{format(new Date(lot.date), "PP")}</span>
+                    <span className="text-muted-foreground">
+                      {lot.quantity} × {currency}{lot.price.toFixed(2)}
+                      {lot.fees > 0 && ` + ${currency}${lot.fees.toFixed(2)} fees`}
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6"
+                      aria-label="Remove lot"
+                      disabled={isLoading || lots.length === 1}
+                      onClick={() => setLots(lots.filter((_, i) => i !== index))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Average price {currency}{lotSummary.priceBuy.toFixed(2)} over {lotSummary.quantity} shares
+              </p>
             </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label>{openingAction} Date</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !date && "text-muted-foreground"
+                      )}
+                      disabled={isLoading}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {date ? format(date, "PPP") : <span>Pick a date</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0" align="start">
+                    <Calendar
+                      mode="single"
+                      selected={date}
+                      onSelect={(date) => date && setDate(date)}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="priceBuy">{openingAction} Price</Label>
+                  <Input
+                    id="priceBuy"
+                    name="priceBuy"
+                    type="number"
+                    step="0.01"
+                    min="0.01"
+                    value={priceInput}
+                    onChange={(e) => setPriceInput(e.target.value)}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="quantity">Quantity</Label>
+                  <Input
+                    id="quantity"
+                    name="quantity"
+                    type="number"
+                    step="1"
+                    min="1"
+                    defaultValue={firstLot?.quantity}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="fees">Other Fees</Label>
+                  <Input
+                    id="fees"
+                    name="fees"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    defaultValue={firstLot?.fees || undefined}
+                    placeholder="0.00"
+                    disabled={isLoading}
+                  />
+                </div>
+              </div>
+            </>
+          )}
 
+          <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
               <Label htmlFor="confidence">Confidence</Label>
-              <Select name="confidence" defaultValue="Medium" required disabled={isLoading}>
+              <Select name="confidence" defaultValue={existingEntry?.confidence ?? "Medium"} required disabled={isLoading}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select confidence" />
                 </SelectTrigger>
@@ -268,44 +525,226 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
                 </SelectContent>
               </Select>
             </div>
-          </div>
 
-          <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="targetPercent">Target %</Label>
+              <Label htmlFor="stopLossPercent">Stop Loss %</Label>
               <Input
-                id="targetPercent"
-                name="targetPercent"
+                id="stopLossPercent"
                 type="number"
-                step="0.1"
-                min="0.1"
-                required
+                step="any"
+                value={stopLossFields.percent}
+                onChange={(e) => setStopLoss({ basis: 'percent', value: e.target.value })}
                 disabled={isLoading}
               />
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="stopLossPercent">Stop Loss %</Label>
+              <Label htmlFor="stopLossPrice">Stop Loss Price</Label>
               <Input
-                id="stopLossPercent"
-                name="stopLossPercent"
+                id="stopLossPrice"
                 type="number"
-                step="0.1"
-                min="0.1"
-                required
+                step="0.01"
+                min="0.01"
+                value={stopLossFields.price}
+                onChange={(e) => setStopLoss({ basis: 'price', value: e.target.value })}
                 disabled={isLoading}
               />
             </div>
           </div>
 
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="trailingStop">Trailing Stop</Label>
+              <Select
+                value={trailType}
+                onValueChange={(value) => setTrailType(value as typeof trailType)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="trailingStop">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TRAIL}>None</SelectItem>
+                  <SelectItem value="percent">Percentage trail</SelectItem>
+                  <SelectItem value="atr">ATR multiple</SelectItem>
+                  <SelectItem value="breakeven">To cost after T1</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {trailType === 'percent' && (
+              <div className="space-y-2">
+                <Label htmlFor="trailPercent">Trail %</Label>
+                <Input
+                  id="trailPercent"
+                  name="trailPercent"
+                  type="number"
+                  step="any"
+                  min="0.1"
+                  defaultValue={existingTrail?.type === 'percent' ? existingTrail.percent : undefined}
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+
+            {trailType === 'atr' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="atrMultiple">ATR Multiple</Label>
+                  <Input
+                    id="atrMultiple"
+                    name="atrMultiple"
+                    type="number"
+                    step="any"
+                    min="0.1"
+                    defaultValue={existingTrail?.type === 'atr' ? existingTrail.multiple : 2}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="atrPeriod">ATR Period</Label>
+                  <Input
+                    id="atrPeriod"
+                    name="atrPeriod"
+                    type="number"
+                    step="1"
+                    min="1"
+                    defaultValue={existingTrail?.type === 'atr' ? existingTrail.period : 14}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Targets</Label>
+              <Button type="button" variant="ghost" size="sm" onClick={addTarget} disabled={isLoading}>
+                <Plus className="mr-1 h-3 w-3" />
+                Add target
+              </Button>
+            </div>
+            <div className="grid grid-cols-[2rem_1fr_1fr_1fr_1.5rem] items-center gap-2 text-xs text-muted-foreground">
+              <span />
+              <span>Target %</span>
+              <span>Price</span>
+              <span>Book % of position</span>
+              <span />
+            </div>
+            {targets.map((target, index) => (
+              <div key={index} className="grid grid-cols-[2rem_1fr_1fr_1fr_1.5rem] items-center gap-2">
+                <span className="text-sm font-medium">T{index + 1}</span>
+                <Input
+                  type="number"
+                  step="any"
+                  aria-label={`T${index + 1} target %`}
+                  value={targetFields[index].percent}
+                  onChange={(e) => updateTarget(index, { level: { basis: 'percent', value: e.target.value } })}
+                  disabled={isLoading}
+                />
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  aria-label={`T${index + 1} price`}
+                  value={targetFields[index].price}
+                  onChange={(e) => updateTarget(index, { level: { basis: 'price', value: e.target.value } })}
+                  disabled={isLoading}
+                />
+                <Input
+                  type="number"
+                  step="any"
+                  aria-label={`T${index + 1} share of position`}
+                  value={target.allocation}
+                  onChange={(e) => updateTarget(index, { allocation: e.target.value })}
+                  disabled={isLoading}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  aria-label="Remove target"
+                  disabled={isLoading || targets.length === 1}
+                  onClick={() => setTargets(targets.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            <p className="text-xs text-muted-foreground">
+              Books {allocated}% of the position
+              {isFinite(riskReward) && riskReward > 0 && ` · Risk/Reward ${riskReward.toFixed(2)} to the final target`}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="direction">Direction</Label>
+              <Select
+                value={direction}
+                onValueChange={(value) => setDirection(value as TradeDirection)}
+                disabled={isLoading}
+              >
+                <SelectTrigger id="direction">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Long">Long</SelectItem>
+                  <SelectItem value="Short">Short</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tradeType">Trade Type</Label>
+              <Select name="tradeType" defaultValue={existingEntry?.tradeType ?? "Delivery"} required disabled={isLoading}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Delivery">Delivery</SelectItem>
+                  <SelectItem value="Intraday">Intraday</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="broker">Broker Fees</Label>
+              <Select
+                name="broker"
+                defaultValue={existingEntry ? CURRENT_BROKER : Object.keys(BROKER_SCHEDULES)[0]}
+                required
+                disabled={isLoading}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {existingEntry && (
+                    <SelectItem value={CURRENT_BROKER}>{existingEntry.broker.name} (current)</SelectItem>
+                  )}
+                  {Object.entries(BROKER_SCHEDULES).map(([key, schedule]) => (
+                    <SelectItem key={key} value={key}>{schedule.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
           <div className="space-y-2">
-            <Label htmlFor="reason">Why Bought? (Reason)</Label>
+            <Label htmlFor="reason">{direction === 'Short' ? 'Why Shorted?' : 'Why Bought?'} (Reason)</Label>
             <Textarea
               id="reason"
               name="reason"
               required
               disabled={isLoading}
-              placeholder="Enter your reasons for buying this stock"
+              defaultValue={existingEntry?.reason}
+              placeholder={`Enter your reasons for ${direction === 'Short' ? 'shorting' : 'buying'} this stock`}
             />
           </div>
 
@@ -316,6 +755,7 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
               name="chartLink"
               type="url"
               disabled={isLoading}
+              defaultValue={existingEntry?.chartLink}
               placeholder="https://..."
             />
           </div>
@@ -327,6 +767,7 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
               name="source"
               type="text"
               disabled={isLoading}
+              defaultValue={existingEntry?.source}
               placeholder="Enter source (e.g., Telegram channel, News, Analysis)"
               required
             />
@@ -340,10 +781,10 @@ export default function StockEntryDialog({ open, onClose, onSubmit, isLoading =
               {isLoading ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Adding...
+                  {isEditing ? 'Saving...' : 'Adding...'}
                 </>
               ) : (
-                'Add Entry'
+                isEditing ? 'Save Changes' : 'Add Entry'
               )}
             </Button>
           </div>
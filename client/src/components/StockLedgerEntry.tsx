@@ -1,9 +1,36 @@
 import { useState } from 'react';
+import { Link } from 'wouter';
 import { Button } from "@/components/ui/button";
-import { Edit2, Trash2, ExternalLink, DollarSign, User } from 'lucide-react';
-import type { StockEntry } from '@/types/ledger';
+import { Badge } from "@/components/ui/badge";
+import { Edit2, Trash2, ExternalLink, DollarSign, User, ChartLine, PlusCircle, Check } from 'lucide-react';
+import type { BuyLot, NewSellLot, StockEntry, StopMove } from '@/types/ledger';
+import type { ChartTimeframe, StockData } from '@/types/stocks';
 import { cn } from "@/lib/utils";
-import useSWR from 'swr';
+import { formatAmount, getCurrencySymbol } from "@/lib/format";
+import { useDailyCandles } from "@/hooks/use-daily-candles";
+import { useTrailingStop } from "@/hooks/use-trailing-stop";
+import {
+  describeTrailingStop,
+  formatStagedTarget,
+  formatStopLossLevel,
+  formatTargetLevel,
+  getBestPrice,
+  getGainPercent,
+  getInvestedAmount,
+  getNetRealizedProfitLoss,
+  getOpenQuantity,
+  getPositionValue,
+  getPriceRange,
+  getReachedTargets,
+  getRealizedProfitLoss,
+  getRiskReward,
+  getSoldCost,
+  getStopLossAt,
+  getTradeActions,
+  getTrailingStopWarmupDays,
+  getUnrealizedProfitLoss,
+  reachesStopLoss
+} from "@/lib/trade";
 import {
   Tooltip,
   TooltipContent,
@@ -11,53 +38,93 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import SellDetailsDialog from './SellDetailsDialog';
+import AddToPositionDialog from './AddToPositionDialog';
+import TradeChart from './TradeChart';
 
 interface StockLedgerEntryProps {
   entry: StockEntry;
+  quote?: StockData;
+  // Current value of all open positions in the entry's currency, for its weight
+  portfolioValue?: number;
+  // Range of daily candles shared by the ledger's entries of this symbol
+  candleRange?: ChartTimeframe;
   index: number;
   onEdit: (entry: StockEntry) => void;
   onDelete: (id: string) => void;
-  onAddSellDetails: (id: string, sellDetails: Pick<StockEntry, 'dateSell' | 'priceSell'>) => Promise<void>;
+  // `stopMoves` are the entry's, trailed up to the sale
+  onAddSellDetails: (id: string, lot: NewSellLot, stopMoves: StopMove[]) => Promise<void>;
+  onAddBuyLot: (id: string, lot: BuyLot) => Promise<void>;
 }
 
 export default function StockLedgerEntry({ 
   entry, 
+  quote,
+  portfolioValue,
+  candleRange,
   index, 
   onEdit, 
   onDelete,
-  onAddSellDetails 
+  onAddSellDetails,
+  onAddBuyLot
 }: StockLedgerEntryProps) {
   const [showSellDialog, setShowSellDialog] = useState(false);
   const [isSelling, setIsSelling] = useState(false);
+  const [showBuyDialog, setShowBuyDialog] = useState(false);
+  const [isBuying, setIsBuying] = useState(false);
+  const [showChart, setShowChart] = useState(false);
 
-  const { data: liveData } = useSWR(
-    `/api/stock/${entry.symbol}`,
-    {
-      refreshInterval: 10000
-    }
-  );
+  const currentPrice = quote?.price;
+  const priceChange = currentPrice ? getGainPercent(entry, currentPrice) : null;
 
-  const currentPrice = liveData?.chart?.result?.[0]?.meta?.regularMarketPrice;
-  const priceChange = currentPrice ? ((currentPrice - entry.priceBuy) / entry.priceBuy) * 100 : null;
+  // Targets of an open position count as reached once the best price since
+  // the purchase gets there; a closed one's only by its sales
+  const isActive = entry.status === 'Active';
+  const { candles, history } = useDailyCandles(
+    entry.symbol,
+    isActive ? entry.dateBuy : undefined,
+    getTrailingStopWarmupDays(entry),
+    candleRange
+  );
+  const priceRange = isActive ? getPriceRange(candles, quote) : null;
+  const reachedTargets = getReachedTargets(entry, priceRange ? getBestPrice(entry, priceRange) : undefined);
+  const stopMoves = useTrailingStop(entry, history);
+  const stopLoss = getStopLossAt({ ...entry, stopMoves });
+  const hitStopLoss = currentPrice ? reachesStopLoss({ ...entry, stopMoves }, currentPrice) : false;
+  const actions = getTradeActions(entry);
 
-  const targetPrice = entry.priceBuy * (1 + entry.targetPercent / 100);
-  const stopLossPrice = entry.priceBuy * (1 - entry.stopLossPercent / 100);
-  const hitTarget = currentPrice ? currentPrice >= targetPrice : false;
-  const hitStopLoss = currentPrice ? currentPrice <= stopLossPrice : false;
+  const invested = getInvestedAmount(entry);
+  const openQuantity = getOpenQuantity(entry);
+  const soldQuantity = entry.quantity - openQuantity;
+  const currentValue = currentPrice ? getPositionValue(entry, currentPrice) : null;
+  const unrealizedProfitLoss = currentPrice ? getUnrealizedProfitLoss(entry, currentPrice) : null;
+  const realizedProfitLoss = getRealizedProfitLoss(entry);
+  const netRealizedProfitLoss = getNetRealizedProfitLoss(entry);
+  const soldCost = getSoldCost(entry);
+  const weight = currentValue && portfolioValue ? (currentValue / portfolioValue) * 100 : null;
 
-  const riskRewardRatio = (entry.targetPercent / entry.stopLossPercent).toFixed(2);
-  const formattedCurrency = entry.symbol.endsWith('.NS') ? '₹' : '$';
+  const riskRewardRatio = getRiskReward(entry).toFixed(2);
+  const formattedCurrency = getCurrencySymbol(entry.symbol);
 
-  const handleSellSubmit = async (sellDetails: Pick<StockEntry, 'dateSell' | 'priceSell'>) => {
+  const handleSellSubmit = async (lot: NewSellLot) => {
     try {
       setIsSelling(true);
-      await onAddSellDetails(entry.id, sellDetails);
+      await onAddSellDetails(entry.id, lot, stopMoves);
       setShowSellDialog(false);
     } finally {
       setIsSelling(false);
     }
   };
 
+  const handleBuySubmit = async (lot: BuyLot) => {
+    try {
+      setIsBuying(true);
+      await onAddBuyLot(entry.id, lot);
+      setShowBuyDialog(false);
+    } finally {
+      setIsBuying(false);
+    }
+  };
+
   return (
     <>
       <tr className="border-b hover:bg-muted/50 transition-colors">
@@ -71,8 +138,15 @@ export default function StockLedgerEntry({
         {/* Stock Info */}
         <td className="p-4">
           <div className="flex flex-col">
-            <span className="font-medium">{entry.stockName}</span>
-            <span className="text-sm text-muted-foreground">{entry.symbol}</span>
+            <Link href={`/entry/${entry.id}`} className="font-medium hover:underline">
+              {entry.stockName}
+            </Link>
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              {entry.symbol}
+              <Badge variant={entry.direction === 'Short' ? "destructive" : "secondary"} className="px-1.5 py-0 text-[10px]">
+                {entry.direction}
+              </Badge>
+            </span>
           </div>
         </td>
 
@@ -96,8 +170,17 @@ export default function StockLedgerEntry({
           <div className="flex flex-col">
             <span>{new Date(entry.dateBuy).toLocaleDateString()}</span>
             <span className="text-sm text-muted-foreground">
-              {formattedCurrency}{entry.priceBuy.toFixed(2)}
+              {entry.quantity} × {formattedCurrency}{entry.priceBuy.toFixed(2)}
+              {entry.buyLots.length > 1 && ` avg · ${entry.buyLots.length} lots`}
+            </span>
+            <span className="text-sm text-muted-foreground">
+              Invested {formatAmount(entry.symbol, invested)}
             </span>
+            {soldQuantity > 0 && entry.status === 'Active' && (
+              <span className="text-sm text-muted-foreground">
+                {openQuantity} of {entry.quantity} open
+              </span>
+            )}
           </div>
         </td>
 
@@ -109,10 +192,22 @@ export default function StockLedgerEntry({
                 <span>{formattedCurrency}{currentPrice.toFixed(2)}</span>
                 <span className={cn(
                   "text-sm",
-                  priceChange && priceChange >= 0 ? "text-green-600" : "text-red-600"
+                  unrealizedProfitLoss !== null && unrealizedProfitLoss >= 0 ? "text-green-600" : "text-red-600"
                 )}>
-                  {priceChange ? `${priceChange.toFixed(2)}%` : 'Loading...'}
+                  {priceChange !== null ? `${priceChange.toFixed(2)}%` : 'Loading...'}
+                  {unrealizedProfitLoss !== null && (
+                    <> ({unrealizedProfitLoss >= 0 ? '+' : '-'}{formatAmount(entry.symbol, Math.abs(unrealizedProfitLoss))})</>
+                  )}
                 </span>
+                {currentValue !== null && (
+                  <span className="text-xs text-muted-foreground">
+                    Value {formatAmount(entry.symbol, currentValue)}
+                    {weight !== null && ` · ${weight.toFixed(1)}% of portfolio`}
+                  </span>
+                )}
+                {quote?.marketState === 'CLOSED' && (
+                  <span className="text-xs text-muted-foreground">As of last close</span>
+                )}
               </div>
             ) : (
               <span className="text-muted-foreground">Loading...</span>
@@ -125,18 +220,41 @@ export default function StockLedgerEntry({
         {/* Target/Stop Loss */}
         <td className="p-4">
           <div className="flex flex-col items-end gap-1">
-            <div className={cn(
-              "text-sm",
-              hitTarget ? "text-green-600 font-medium" : "text-muted-foreground"
-            )}>
-              Target: {entry.targetPercent}% ({formattedCurrency}{targetPrice.toFixed(2)})
-            </div>
+            {entry.targets.length > 1 ? (
+              entry.targets.map((target, stage) => (
+                <div
+                  key={stage}
+                  className={cn(
+                    "flex items-center gap-1 text-sm",
+                    reachedTargets[stage] ? "text-green-600 font-medium" : "text-muted-foreground"
+                  )}
+                >
+                  {reachedTargets[stage] && <Check className="h-3 w-3" />}
+                  T{stage + 1}: {formatStagedTarget(entry, target)} · {target.allocation}%
+                </div>
+              ))
+            ) : (
+              <div className={cn(
+                "flex items-center gap-1 text-sm",
+                reachedTargets[0] ? "text-green-600 font-medium" : "text-muted-foreground"
+              )}>
+                {reachedTargets[0] && <Check className="h-3 w-3" />}
+                Target: {formatTargetLevel(entry)}
+              </div>
+            )}
             <div className={cn(
               "text-sm",
               hitStopLoss ? "text-red-600 font-medium" : "text-muted-foreground"
             )}>
-              Stop Loss: {entry.stopLossPercent}% ({formattedCurrency}{stopLossPrice.toFixed(2)})
+              {entry.trailingStop
+                ? `Stop Loss: ${formattedCurrency}${stopLoss.toFixed(2)} · ${describeTrailingStop(entry.trailingStop)}`
+                : `Stop Loss: ${formatStopLossLevel(entry)}`}
             </div>
+            {entry.trailingStop && (
+              <div className="text-xs text-muted-foreground">
+                Initially {formatStopLossLevel(entry)}
+              </div>
+            )}
           </div>
         </td>
 
@@ -168,23 +286,40 @@ export default function StockLedgerEntry({
           </TooltipProvider>
         </td>
 
-        {/* Sell Date */}
+        {/* Sell Date: the latest sale */}
         <td className="p-4">
           {entry.dateSell ? new Date(entry.dateSell).toLocaleDateString() : '-'}
         </td>
 
-        {/* Sell Price */}
+        {/* Sell Price: average over the sales */}
         <td className="p-4 text-right">
-          {entry.priceSell ? `${formattedCurrency}${entry.priceSell.toFixed(2)}` : '-'}
+          {entry.priceSell ? (
+            <div className="flex flex-col items-end">
+              <span>{formattedCurrency}{entry.priceSell.toFixed(2)}</span>
+              {entry.sellLots.length > 1 && (
+                <span className="text-xs text-muted-foreground">avg of {entry.sellLots.length} sales</span>
+              )}
+            </div>
+          ) : '-'}
         </td>
 
-        {/* Profit/Loss */}
+        {/* Profit/Loss: realized so far */}
         <td className="p-4 text-right">
-          {entry.priceSell && entry.profitLoss ? (
-            <span className={entry.profitLoss >= 0 ? 'text-green-600' : 'text-red-600'}>
-              {formattedCurrency}{Math.abs(entry.profitLoss).toFixed(2)}
-              ({((entry.profitLoss / entry.priceBuy) * 100).toFixed(2)}%)
-            </span>
+          {soldQuantity > 0 ? (
+            <div className="flex flex-col items-end">
+              <span className={realizedProfitLoss >= 0 ? 'text-green-600' : 'text-red-600'}>
+                {realizedProfitLoss >= 0 ? '+' : '-'}{formatAmount(entry.symbol, Math.abs(realizedProfitLoss))}
+                {' '}({((realizedProfitLoss / soldCost) * 100).toFixed(2)}%)
+              </span>
+              <span className="text-xs text-muted-foreground">
+                Net {netRealizedProfitLoss >= 0 ? '+' : '-'}{formatAmount(entry.symbol, Math.abs(netRealizedProfitLoss))}
+              </span>
+              {entry.status === 'Active' && (
+                <span className="text-xs text-muted-foreground">
+                  Realized on {soldQuantity} {actions.close === 'Cover' ? 'covered' : 'sold'}
+                </span>
+              )}
+            </div>
           ) : '-'}
         </td>
 
@@ -200,17 +335,37 @@ export default function StockLedgerEntry({
         {/* Actions */}
         <td className="p-4">
           <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowChart(prev => !prev)}
+              className={cn(showChart && "bg-muted")}
+              aria-label={showChart ? "Hide trade chart" : "Show trade chart"}
+            >
+              <ChartLine className="h-4 w-4" />
+            </Button>
             {entry.chartLink && (
               <Button variant="ghost" size="sm" onClick={() => window.open(entry.chartLink, '_blank')}>
                 <ExternalLink className="h-4 w-4" />
               </Button>
             )}
+            {entry.status === 'Active' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowBuyDialog(true)}
+                aria-label="Add to position"
+              >
+                <PlusCircle className="h-4 w-4" />
+              </Button>
+            )}
             {entry.status === 'Active' && (
               <Button 
                 variant="ghost" 
                 size="sm" 
                 onClick={() => setShowSellDialog(true)}
                 className="text-green-600 hover:text-green-700"
+                aria-label={actions.close}
               >
                 <DollarSign className="h-4 w-4" />
               </Button>
@@ -225,6 +380,14 @@ export default function StockLedgerEntry({
         </td>
       </tr>
 
+      {showChart && (
+        <tr className="border-b bg-muted/20">
+          <td colSpan={13} className="p-4">
+            <TradeChart entry={entry} />
+          </td>
+        </tr>
+      )}
+
       {showSellDialog && (
         <SellDetailsDialog
           open={showSellDialog}
@@ -234,6 +397,16 @@ export default function StockLedgerEntry({
           entry={entry}
         />
       )}
+
+      {showBuyDialog && (
+        <AddToPositionDialog
+          open={showBuyDialog}
+          onClose={() => setShowBuyDialog(false)}
+          onSubmit={handleBuySubmit}
+          isLoading={isBuying}
+          entry={entry}
+        />
+      )}
     </>
   );
 }
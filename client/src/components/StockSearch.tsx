@@ -3,9 +3,27 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search, Loader2, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import debounce from "lodash/debounce";
 import useSWR from "swr";
+import { cn } from "@/lib/utils";
+import type { StockMarket, StockSearchResult } from "@/types/stocks";
+
+type ExchangeFilter = 'ALL' | StockMarket;
+
+const MARKET_BADGE_STYLES: Record<StockMarket, string> = {
+  NSE: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+  BSE: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  US: "bg-emerald-100 text-emerald-800 hover:bg-emerald-100",
+};
 
 interface StockSearchProps {
   onSelect: (symbol: string, name: string) => void;
@@ -16,6 +34,7 @@ interface StockSearchProps {
 export default function StockSearch({ onSelect, showForm = true, className }: StockSearchProps) {
   const [search, setSearch] = useState("");
   const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [exchange, setExchange] = useState<ExchangeFilter>('ALL');
   const { toast } = useToast();
 
   const debouncedSetSearch = useCallback(
@@ -25,8 +44,10 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
     []
   );
 
-  const { data, error, isLoading } = useSWR(
-    debouncedSearch.length >= 1 ? `/api/search?query=${encodeURIComponent(debouncedSearch)}` : null,
+  const { data, error, isLoading } = useSWR<StockSearchResult[]>(
+    debouncedSearch.length >= 1
+      ? `/api/search?query=${encodeURIComponent(debouncedSearch)}&exchange=${exchange}`
+      : null,
     {
       revalidateOnFocus: false,
       shouldRetryOnError: false,
@@ -47,13 +68,19 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
     if (!search) return;
 
     const symbol = search.toUpperCase();
-    const isIndianStock = /^[A-Z\d]+$/i.test(symbol);
-    const formattedSymbol = isIndianStock && !symbol.endsWith('.NS') 
-      ? `${symbol}.NS`
-      : symbol;
+    const hasSuffix = /\.(NS|BO)$/.test(symbol) || symbol.startsWith('^');
+
+    // Prefer a listing from the search results: the exact symbol, or the
+    // NSE/BSE listing of a bare ticker
+    const stockData = data?.find(stock => (
+      stock.symbol === symbol ||
+      (!hasSuffix && (stock.symbol === `${symbol}.NS` || stock.symbol === `${symbol}.BO`))
+    ));
+
+    // Otherwise bare tickers go to the selected exchange, NSE by default
+    const defaultSuffix = exchange === 'US' ? '' : exchange === 'BSE' ? '.BO' : '.NS';
+    const formattedSymbol = stockData?.symbol ?? (hasSuffix ? symbol : `${symbol}${defaultSuffix}`);
 
-    // Find the stock data to get the name
-    const stockData = data?.find((stock: any) => stock.symbol === formattedSymbol);
     onSelect(formattedSymbol, stockData?.name || formattedSymbol);
     
     // Clear search suggestions
@@ -61,11 +88,25 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/[^A-Za-z0-9.]/g, '').toUpperCase();
+    const value = e.target.value.replace(/[^A-Za-z0-9.&^-]/g, '').toUpperCase();
     setSearch(value);
     debouncedSetSearch(value);
   };
 
+  const exchangeSelect = (
+    <Select value={exchange} onValueChange={(value) => setExchange(value as ExchangeFilter)}>
+      <SelectTrigger className="w-[110px]" aria-label="Exchange filter">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="ALL">All</SelectItem>
+        <SelectItem value="NSE">NSE</SelectItem>
+        <SelectItem value="BSE">BSE</SelectItem>
+        <SelectItem value="US">US</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
   return (
     <div className={`space-y-2 ${className}`}>
       {showForm ? (
@@ -80,6 +121,7 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
               aria-label="Stock symbol input"
             />
           </div>
+          {exchangeSelect}
           <Button onClick={handleSearch} disabled={isLoading || !search}>
             {isLoading ? (
               <Loader2 className="h-4 w-4 animate-spin mr-2" />
@@ -90,14 +132,17 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
           </Button>
         </div>
       ) : (
-        <Input
-          type="text"
-          value={search}
-          onChange={handleInputChange}
-          placeholder="Search for a stock..."
-          className="w-full"
-          aria-label="Stock symbol input"
-        />
+        <div className="flex gap-2">
+          <Input
+            type="text"
+            value={search}
+            onChange={handleInputChange}
+            placeholder="Search for a stock..."
+            className="w-full"
+            aria-label="Stock symbol input"
+          />
+          {exchangeSelect}
+        </div>
       )}
 
       {error && !isLoading && debouncedSearch && (
@@ -109,10 +154,10 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
         </Alert>
       )}
 
-      {data?.length > 0 && !error && !isLoading && (
+      {data && data.length > 0 && !error && !isLoading && (
         <div className="mt-2 p-2 border rounded-lg bg-background/50 backdrop-blur-sm">
           <ul className="space-y-1">
-            {data.map((stock: any) => (
+            {data.map((stock) => (
               <li
                 key={stock.symbol}
                 className="p-2 hover:bg-muted rounded-md cursor-pointer"
@@ -122,9 +167,14 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
                   onSelect(stock.symbol, stock.name); // Pass both symbol and name
                 }}
               >
-                <div className="font-medium">{stock.symbol}</div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{stock.symbol}</span>
+                  <Badge className={cn("px-2 py-0 text-[10px]", MARKET_BADGE_STYLES[stock.market])}>
+                    {stock.exchange}
+                  </Badge>
+                </div>
                 <div className="text-sm text-muted-foreground">
-                  {stock.name} • {stock.exchange}
+                  {stock.name}
                 </div>
               </li>
             ))}
@@ -135,7 +185,8 @@ export default function StockSearch({ onSelect, showForm = true, className }: St
       {showForm && (
         <div className="text-sm text-muted-foreground">
           <p>• For Indian (NSE) stocks: Enter symbol (e.g., RELIANCE, TCS)</p>
-          <p>• For US stocks: Enter 1-5 letter symbol (e.g., AAPL, MSFT)</p>
+          <p>• For BSE stocks: Add .BO or use the scrip code (e.g., RELIANCE.BO, 500325.BO)</p>
+          <p>• For US stocks: Enter 1-5 letter symbol (e.g., AAPL, MSFT, BRK-B)</p>
         </div>
       )}
     </div>
@@ -2,20 +2,27 @@ import useSWR from "swr";
 import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AlertCircle } from "lucide-react";
+import { useMarketStatus } from "@/hooks/use-market-status";
+import type { StockStatistics } from "@/types/stocks";
+import { getCurrencySymbol } from "@/lib/format";
 
 interface StockStatsProps {
   symbol: string;
 }
 
 export default function StockStats({ symbol }: StockStatsProps) {
-  const { data, error, isLoading } = useSWR(`/api/stock/${symbol}`);
+  const { isOpen } = useMarketStatus();
+  const { data, error, isLoading } = useSWR<StockStatistics>(
+    `/api/stock/${encodeURIComponent(symbol)}/stats`,
+    { refreshInterval: isOpen(symbol) ? 30000 : 0 }
+  );
 
   if (isLoading) {
     return (
       <div>
         <h2 className="text-xl font-semibold mb-4">Key Statistics</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          {[...Array(4)].map((_, i) => (
+          {[...Array(8)].map((_, i) => (
             <Card key={i} className="p-4">
               <Skeleton className="h-4 w-16 mb-2" />
               <Skeleton className="h-8 w-24" />
@@ -26,7 +33,7 @@ export default function StockStats({ symbol }: StockStatsProps) {
     );
   }
 
-  if (error || !data?.chart?.result?.[0]?.meta) {
+  if (error || !data) {
     return (
       <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
         <div className="flex items-center gap-2 text-destructive">
@@ -34,15 +41,13 @@ export default function StockStats({ symbol }: StockStatsProps) {
           <span>Error loading statistics</span>
         </div>
         <p className="text-sm text-muted-foreground mt-1">
-          {error?.response?.data?.details || error?.message || "Unable to fetch stock statistics"}
+          {error?.info?.details || error?.message || "Unable to fetch stock statistics"}
         </p>
       </div>
     );
   }
 
-  const meta = data.chart.result[0].meta;
-  
-  const formatValue = (value: number | undefined, isVolume = false): string => {
+  const formatValue = (value: number | null | undefined, isVolume = false): string => {
     if (value === undefined || value === null || isNaN(value)) {
       return "N/A";
     }
@@ -52,13 +57,21 @@ export default function StockStats({ symbol }: StockStatsProps) {
     return value.toFixed(2);
   };
 
-  const formattedCurrency = symbol.endsWith('.NS') ? '₹' : '$';
+  const formattedCurrency = getCurrencySymbol(symbol);
 
   const stats = [
-    { title: "Open", value: formatValue(meta.regularMarketOpen), prefix: formattedCurrency },
-    { title: "High", value: formatValue(meta.regularMarketDayHigh), prefix: formattedCurrency },
-    { title: "Low", value: formatValue(meta.regularMarketDayLow), prefix: formattedCurrency },
-    { title: "Volume", value: formatValue(meta.regularMarketVolume, true), prefix: "" }
+    { title: "Open", value: formatValue(data.open), prefix: formattedCurrency },
+    { title: "High", value: formatValue(data.high), prefix: formattedCurrency },
+    { title: "Low", value: formatValue(data.low), prefix: formattedCurrency },
+    { title: "Previous Close", value: formatValue(data.previousClose), prefix: formattedCurrency },
+    { title: "VWAP", value: formatValue(data.vwap), prefix: formattedCurrency },
+    { title: "Volume", value: formatValue(data.volume, true), prefix: "" },
+    { title: "Avg Volume (20D)", value: formatValue(data.averageVolume20d, true), prefix: "" },
+    {
+      title: "Relative Volume",
+      value: data.relativeVolume === null ? "N/A" : `${data.relativeVolume.toFixed(2)}x`,
+      prefix: ""
+    }
   ];
 
   return (
@@ -74,10 +87,51 @@ export default function StockStats({ symbol }: StockStatsProps) {
           />
         ))}
       </div>
+      <FiftyTwoWeekRange
+        low={data.fiftyTwoWeekLow}
+        high={data.fiftyTwoWeekHigh}
+        position={data.fiftyTwoWeekPosition}
+        prefix={formattedCurrency}
+      />
     </div>
   );
 }
 
+// 52-week low/high with a marker at the current price
+function FiftyTwoWeekRange({ low, high, position, prefix }: {
+  low: number | null;
+  high: number | null;
+  position: number | null;
+  prefix: string;
+}) {
+  if (low === null || high === null) return null;
+
+  return (
+    <Card className="p-4 mt-4">
+      <div className="text-sm text-muted-foreground">52-Week Range</div>
+      <div className="flex items-center gap-4 mt-2">
+        <span className="text-sm font-medium">{prefix}{low.toFixed(2)}</span>
+        <div className="relative flex-1 h-2 rounded-full bg-muted">
+          {position !== null && (
+            <>
+              <div
+                className="absolute inset-y-0 left-0 rounded-full bg-primary/30"
+                style={{ width: `${position}%` }}
+              />
+              <div
+                className="absolute top-1/2 h-4 w-1 -translate-x-1/2 -translate-y-1/2 rounded bg-primary"
+                style={{ left: `${position}%` }}
+                title={`${position.toFixed(1)}% of the 52-week range`}
+              />
+            </>
+          )}
+        </div>
+        <span className="text-sm font-medium">{prefix}{high.toFixed(2)}</span>
+      </div>
+    </Card>
+  );
+}
+
 function StatCard({ title, value, prefix }: { title: string; value: string; prefix: string }) {
   return (
     <Card className="p-4">
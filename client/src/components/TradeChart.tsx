@@ -0,0 +1,267 @@
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ReferenceArea,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer
+} from "recharts";
+import useSWR from "swr";
+import { format } from "date-fns";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle } from "lucide-react";
+import { getCurrencySymbol } from "@/lib/format";
+import {
+  getRealizedProfitLoss,
+  getStagedTargetPrice,
+  getStopLossAt,
+  getStopLossPrice,
+  getTargetPrice,
+  getTradeActions
+} from "@/lib/trade";
+import type { StockEntry } from "@/types/ledger";
+import type { ChartInterval, ChartTimeframe, StockChartData } from "@/types/stocks";
+
+interface TradeChartProps {
+  entry: StockEntry;
+  height?: number;
+}
+
+const DAY = 24 * 60 * 60;
+
+const PROFIT_COLOR = 'rgb(22 163 74)';
+const LOSS_COLOR = 'rgb(220 38 38)';
+
+// Smallest chart range reaching back to the buy date, with the interval
+// the stock endpoint serves for it
+function pickWindow(buyTime: number, now: number): { range: ChartTimeframe; interval: ChartInterval } {
+  const days = (now - buyTime) / DAY;
+  if (days <= 4) return { range: '5d', interval: '15m' };
+  if (days <= 28) return { range: '1mo', interval: '60m' };
+  if (days <= 175) return { range: '6mo', interval: '1d' };
+  if (days <= 360) return { range: '1y', interval: '1d' };
+  if (days <= 5 * 360) return { range: '5y', interval: '1wk' };
+  return { range: 'max', interval: '1mo' };
+}
+
+// Price history of one ledger entry from purchase to its final sale (or
+// today), with its buy/sell points, target and stop-loss levels and the
+// profit/loss zones
+export default function TradeChart({ entry, height = 300 }: TradeChartProps) {
+  const now = Math.floor(Date.now() / 1000);
+  const buyTime = Math.floor(new Date(entry.dateBuy).getTime() / 1000);
+  // A partly sold position is still held, so its window runs to today
+  const endTime = entry.status === 'Closed' && entry.dateSell
+    ? Math.floor(new Date(entry.dateSell).getTime() / 1000)
+    : now;
+  const chartWindow = pickWindow(buyTime, now);
+
+  const { data, error, isLoading } = useSWR<StockChartData>(
+    `/api/stock/${encodeURIComponent(entry.symbol)}?range=${chartWindow.range}&interval=${chartWindow.interval}`,
+    { refreshInterval: 0 }
+  );
+
+  if (isLoading) {
+    return <Skeleton className="w-full" style={{ height }} />;
+  }
+
+  if (error || !data) {
+    return (
+      <div className="p-4 border border-destructive/50 rounded-lg bg-destructive/10">
+        <div className="flex items-center gap-2 text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          <span>{error?.info?.details || "Unable to load the trade chart"}</span>
+        </div>
+      </div>
+    );
+  }
+
+  // A little context either side of the holding period
+  const padding = Math.max((endTime - buyTime) * 0.15, DAY);
+  const points = data.candles
+    .filter(candle => candle.time >= buyTime - padding && candle.time <= endTime + padding)
+    .map(candle => ({ time: candle.time, close: candle.close }));
+
+  if (points.length === 0) {
+    return (
+      <div className="p-4 border rounded-lg text-sm text-muted-foreground">
+        No price history available for this holding period.
+      </div>
+    );
+  }
+
+  const currency = getCurrencySymbol(entry.symbol);
+  const targetPrice = getTargetPrice(entry);
+  const stopLossPrice = getStopLossPrice(entry);
+  // Stages of a scale-out plan before its final target
+  const earlierTargets = entry.targets.slice(0, -1).map(target => getStagedTargetPrice(entry, target));
+  // Latest recorded level of a trailing stop that has moved
+  const trailingStopPrice = entry.trailingStop && entry.stopMoves.length > 1 ? getStopLossAt(entry) : undefined;
+
+  const firstTime = points[0].time;
+  const lastTime = points[points.length - 1].time;
+  const clampTime = (time: number) => Math.min(Math.max(time, firstTime), lastTime);
+  const zoneStart = clampTime(buyTime);
+  const zoneEnd = clampTime(endTime);
+
+  // Keep the levels in view even when price never got near them
+  const prices = [
+    ...points.map(p => p.close),
+    ...entry.buyLots.map(lot => lot.price),
+    ...entry.sellLots.map(lot => lot.price),
+    targetPrice,
+    stopLossPrice,
+    ...(trailingStopPrice !== undefined ? [trailingStopPrice] : []),
+    entry.priceBuy
+  ];
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  const margin = (maxPrice - minPrice) * 0.05 || maxPrice * 0.01;
+
+  const intraday = chartWindow.interval.endsWith('m');
+  const formatTime = (time: number) => format(new Date(time * 1000), intraday ? 'dd MMM HH:mm' : 'dd MMM yy');
+  const formatPrice = (price: number) => `${currency}${price.toFixed(2)}`;
+  const hasManyLots = entry.buyLots.length > 1;
+  const actions = getTradeActions(entry);
+  const isPartialExit = entry.sellLots.length > 1 || entry.status === 'Active';
+
+  return (
+    <div className="w-full" style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={points} margin={{ top: 10, right: 60, bottom: 0, left: 0 }}>
+          <XAxis
+            dataKey="time"
+            type="number"
+            scale="time"
+            domain={[firstTime, lastTime]}
+            tick={{ fontSize: 12 }}
+            tickFormatter={formatTime}
+            minTickGap={40}
+          />
+          <YAxis
+            domain={[minPrice - margin, maxPrice + margin]}
+            tick={{ fontSize: 12 }}
+            tickFormatter={(price: number) => price.toFixed(0)}
+            width={60}
+          />
+          <Tooltip
+            contentStyle={{
+              backgroundColor: 'hsl(var(--background))',
+              border: '1px solid hsl(var(--border))'
+            }}
+            labelStyle={{ color: 'hsl(var(--foreground))' }}
+            labelFormatter={formatTime}
+            formatter={(price: number) => [formatPrice(price), 'Close']}
+          />
+
+          {/* Profit zone between entry and target, loss zone between stop and entry */}
+          <ReferenceArea
+            x1={zoneStart}
+            x2={zoneEnd}
+            y1={entry.priceBuy}
+            y2={targetPrice}
+            fill={PROFIT_COLOR}
+            fillOpacity={0.08}
+          />
+          <ReferenceArea
+            x1={zoneStart}
+            x2={zoneEnd}
+            y1={stopLossPrice}
+            y2={entry.priceBuy}
+            fill={LOSS_COLOR}
+            fillOpacity={0.08}
+          />
+
+          <ReferenceLine
+            y={targetPrice}
+            stroke={PROFIT_COLOR}
+            strokeDasharray="4 4"
+            label={{
+              value: `${earlierTargets.length > 0 ? `T${entry.targets.length}` : 'Target'} ${formatPrice(targetPrice)}`,
+              position: 'right',
+              fontSize: 11,
+              fill: PROFIT_COLOR
+            }}
+          />
+          {earlierTargets.map((price, stage) => (
+            <ReferenceLine
+              key={stage}
+              y={price}
+              stroke={PROFIT_COLOR}
+              strokeOpacity={0.5}
+              strokeDasharray="2 4"
+              label={{ value: `T${stage + 1} ${formatPrice(price)}`, position: 'right', fontSize: 11, fill: PROFIT_COLOR }}
+            />
+          ))}
+          <ReferenceLine
+            y={stopLossPrice}
+            stroke={LOSS_COLOR}
+            strokeDasharray="4 4"
+            label={{ value: `SL ${formatPrice(stopLossPrice)}`, position: 'right', fontSize: 11, fill: LOSS_COLOR }}
+          />
+          {trailingStopPrice !== undefined && (
+            <ReferenceLine
+              y={trailingStopPrice}
+              stroke={LOSS_COLOR}
+              strokeOpacity={0.5}
+              strokeDasharray="2 4"
+              label={{ value: `Trail ${formatPrice(trailingStopPrice)}`, position: 'right', fontSize: 11, fill: LOSS_COLOR }}
+            />
+          )}
+          <ReferenceLine
+            y={entry.priceBuy}
+            stroke="hsl(var(--muted-foreground))"
+            strokeOpacity={0.5}
+            label={hasManyLots
+              ? { value: `Avg ${formatPrice(entry.priceBuy)}`, position: 'right', fontSize: 11 }
+              : undefined}
+          />
+
+          <Line
+            type="monotone"
+            dataKey="close"
+            stroke="hsl(var(--primary))"
+            strokeWidth={2}
+            dot={false}
+            activeDot={{ r: 4 }}
+            isAnimationActive={false}
+          />
+
+          {entry.buyLots.map((lot, index) => (
+            <ReferenceDot
+              key={index}
+              x={clampTime(Math.floor(new Date(lot.date).getTime() / 1000))}
+              y={lot.price}
+              r={6}
+              fill={PROFIT_COLOR}
+              stroke="white"
+              label={{
+                value: hasManyLots ? `+${lot.quantity} @ ${formatPrice(lot.price)}` : `${actions.open} ${formatPrice(lot.price)}`,
+                position: 'bottom',
+                fontSize: 11
+              }}
+            />
+          ))}
+          {entry.sellLots.map((lot, index) => (
+            <ReferenceDot
+              key={index}
+              x={clampTime(Math.floor(new Date(lot.date).getTime() / 1000))}
+              y={lot.price}
+              r={6}
+              fill={getRealizedProfitLoss({ ...entry, sellLots: [lot] }) >= 0 ? PROFIT_COLOR : LOSS_COLOR}
+              stroke="white"
+              label={{
+                value: isPartialExit ? `-${lot.quantity} @ ${formatPrice(lot.price)}` : `${actions.close} ${formatPrice(lot.price)}`,
+                position: 'top',
+                fontSize: 11
+              }}
+            />
+          ))}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
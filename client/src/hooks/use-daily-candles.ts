@@ -0,0 +1,87 @@
+import { useMemo } from "react";
+import useSWR, { preload } from "swr";
+import { startOfDay } from "date-fns";
+import { fetcher } from "@/lib/fetcher";
+import { getTrailingStopWarmupDays } from "@/lib/trade";
+import type { StockEntry } from "@/types/ledger";
+import type { Candle, ChartTimeframe, StockChartData } from "@/types/stocks";
+
+const DAY = 24 * 60 * 60;
+const RANGES: ChartTimeframe[] = ['1mo', '3mo', '6mo', '1y', '5y', 'max'];
+
+// Smallest chart range serving daily candles that reaches `days` back
+function pickDailyRange(days: number): ChartTimeframe {
+  if (days <= 28) return '1mo';
+  if (days <= 85) return '3mo';
+  if (days <= 175) return '6mo';
+  if (days <= 360) return '1y';
+  if (days <= 5 * 360) return '5y';
+  return 'max';
+}
+
+// Unix time daily candles have to reach back to from the day of `since`,
+// `lookbackDays` further for indicators that need to settle first
+function getHistoryStart(since: string, lookbackDays: number): number {
+  return Math.floor(startOfDay(new Date(since)).getTime() / 1000) - lookbackDays * DAY;
+}
+
+function getDailyRange(since: string, lookbackDays: number): ChartTimeframe {
+  return pickDailyRange((Date.now() / 1000 - getHistoryStart(since, lookbackDays)) / DAY);
+}
+
+function getDailyCandlesKey(symbol: string, range: ChartTimeframe) {
+  return `/api/stock/${encodeURIComponent(symbol)}?range=${range}&interval=1d`;
+}
+
+// Widest range of daily candles each symbol's open entries need, so that
+// entries of the same symbol share one request (pass it to useDailyCandles)
+export function getDailyCandleRanges(entries: StockEntry[]): Map<string, ChartTimeframe> {
+  const ranges = new Map<string, ChartTimeframe>();
+  for (const entry of entries) {
+    if (entry.status !== 'Active') continue;
+    const range = getDailyRange(entry.dateBuy, getTrailingStopWarmupDays(entry));
+    const widest = ranges.get(entry.symbol);
+    if (!widest || RANGES.indexOf(range) > RANGES.indexOf(widest)) {
+      ranges.set(entry.symbol, range);
+    }
+  }
+  return ranges;
+}
+
+// Daily candles an entry's trailing stop follows, as the `history` of
+// useDailyCandles, fetched outside of a component. The request is shared
+// with the hook's for the same `range`.
+export async function fetchDailyHistory(entry: StockEntry, range?: ChartTimeframe): Promise<Candle[]> {
+  const lookbackDays = getTrailingStopWarmupDays(entry);
+  const key = getDailyCandlesKey(entry.symbol, range ?? getDailyRange(entry.dateBuy, lookbackDays));
+  const data: StockChartData = await preload(key, fetcher);
+  const historyStart = getHistoryStart(entry.dateBuy, lookbackDays);
+  return data.candles.filter(candle => candle.time >= historyStart);
+}
+
+// Daily candles of a symbol from the day of `since` (an ISO date) to today,
+// e.g. the trading since a purchase. `history` also reaches `lookbackDays`
+// further back, for indicators that need to settle first. `range` fetches
+// more than that, when shared with other entries of the symbol. The request
+// is skipped without a date.
+export function useDailyCandles(symbol: string, since: string | undefined, lookbackDays = 0, range?: ChartTimeframe) {
+  const start = since ? getHistoryStart(since, 0) : undefined;
+  const historyStart = since ? getHistoryStart(since, lookbackDays) : undefined;
+  const fetchRange = since ? range ?? getDailyRange(since, lookbackDays) : undefined;
+
+  const { data, error, isLoading } = useSWR<StockChartData>(
+    fetchRange ? getDailyCandlesKey(symbol, fetchRange) : null,
+    { refreshInterval: 0 }
+  );
+
+  const history = useMemo(
+    () => historyStart !== undefined ? data?.candles.filter(candle => candle.time >= historyStart) ?? [] : [],
+    [data, historyStart]
+  );
+  const candles = useMemo(
+    () => start !== undefined ? history.filter(candle => candle.time >= start) : [],
+    [history, start]
+  );
+
+  return { candles, history, error, isLoading };
+}
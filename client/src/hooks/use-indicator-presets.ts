@@ -0,0 +1,38 @@
+import useSWR from "swr";
+import { useAuth } from "@/contexts/AuthContext";
+import { indicatorPresetService } from "@/lib/indicatorPresetService";
+import type { IndicatorConfig, IndicatorPreset } from "@/types/indicators";
+
+// Indicator presets of the signed-in user. Presets are only available once
+// signed in; `canSave` tells the UI whether to offer saving.
+export function useIndicatorPresets() {
+  const { user } = useAuth();
+  const uid = user?.uid;
+
+  const { data, error, isLoading, mutate } = useSWR<IndicatorPreset[]>(
+    uid ? ['indicatorPresets', uid] : null,
+    () => indicatorPresetService.getPresets(uid!),
+    { refreshInterval: 0, revalidateOnFocus: false }
+  );
+
+  const savePreset = async (name: string, indicators: IndicatorConfig[]) => {
+    if (!uid) throw new Error('Sign in to save indicator presets');
+    const preset = await indicatorPresetService.savePreset(uid, name, indicators);
+    await mutate(presets => [...(presets ?? []), preset].sort((a, b) => a.name.localeCompare(b.name)), false);
+    return preset;
+  };
+
+  const deletePreset = async (id: string) => {
+    await indicatorPresetService.deletePreset(id);
+    await mutate(presets => presets?.filter(preset => preset.id !== id), false);
+  };
+
+  return {
+    presets: data ?? [],
+    error,
+    isLoading,
+    canSave: !!uid,
+    savePreset,
+    deletePreset
+  };
+}
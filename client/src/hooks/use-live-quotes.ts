@@ -0,0 +1,27 @@
+import { useMemo } from "react";
+import { useQuotes } from "@/hooks/use-quotes";
+import { usePriceStream } from "@/hooks/use-price-stream";
+import { useMarketStatus } from "@/hooks/use-market-status";
+import type { StockData } from "@/types/stocks";
+
+// Live quotes for a set of symbols: pushed over the price stream, with one
+// batch request polling in its place whenever the socket is down. Polling
+// pauses while none of their markets are open.
+export function useLiveQuotes(symbols: string[]) {
+  const { quotes: streamedQuotes, connected: isStreaming } = usePriceStream(symbols);
+  const { isOpen } = useMarketStatus();
+  const anyMarketOpen = symbols.some(isOpen);
+  const { quotes: polledQuotes } = useQuotes(symbols, isStreaming || !anyMarketOpen ? 0 : 10000);
+
+  const quotes = useMemo(() => {
+    const bySymbol: Record<string, StockData> = { ...polledQuotes };
+    if (isStreaming) {
+      Object.values(streamedQuotes).forEach(quote => {
+        bySymbol[quote.symbol] = quote;
+      });
+    }
+    return bySymbol;
+  }, [polledQuotes, streamedQuotes, isStreaming]);
+
+  return { quotes, isStreaming };
+}
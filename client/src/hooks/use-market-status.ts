@@ -0,0 +1,34 @@
+import { useCallback, useMemo } from "react";
+import useSWR from "swr";
+import { getMarketForSymbol } from "@/lib/market";
+import type { MarketStatusResponse } from "@/types/api";
+import type { MarketCalendarId, MarketStatus } from "@/types/stocks";
+
+// Session of each market from the server calendar. Refreshed every minute
+// so polling resumes shortly after a market opens.
+export function useMarketStatus() {
+  const { data } = useSWR<MarketStatusResponse>("/api/market/status", {
+    refreshInterval: 60000
+  });
+
+  const byMarket = useMemo(() => {
+    const statuses: Partial<Record<MarketCalendarId, MarketStatus>> = {};
+    data?.markets.forEach(status => {
+      statuses[status.market] = status;
+    });
+    return statuses;
+  }, [data]);
+
+  const getStatus = useCallback(
+    (symbol: string) => byMarket[getMarketForSymbol(symbol)],
+    [byMarket]
+  );
+
+  // Treat markets as open until the calendar has loaded so prices still poll
+  const isOpen = useCallback(
+    (symbol: string) => getStatus(symbol)?.isOpen ?? true,
+    [getStatus]
+  );
+
+  return { markets: data?.markets ?? [], getStatus, isOpen };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useMemo, useState } from "react";
+import { priceStream } from "@/lib/priceStream";
+import type { StockData } from "@/types/stocks";
+
+// Subscribe to pushed price updates for the given symbols.
+// `connected` is false whenever the socket is down, so callers can fall
+// back to polling until it comes back.
+export function usePriceStream(symbols: string[]) {
+  const key = useMemo(
+    () => Array.from(new Set(symbols.filter(Boolean))).sort().join(','),
+    [symbols]
+  );
+  const [quotes, setQuotes] = useState<Record<string, StockData>>({});
+  const [connected, setConnected] = useState(priceStream.connected);
+
+  useEffect(() => priceStream.onStatus(setConnected), []);
+
+  useEffect(() => {
+    if (!key) return;
+    const watched = key.split(',');
+
+    const removeListener = priceStream.onQuote((quote) => {
+      if (watched.includes(quote.symbol)) {
+        setQuotes(prev => ({ ...prev, [quote.symbol]: quote }));
+      }
+    });
+    const unsubscribe = priceStream.subscribe(watched);
+
+    return () => {
+      removeListener();
+      unsubscribe();
+    };
+  }, [key]);
+
+  return { quotes, connected };
+}
@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import useSWR from "swr";
+import type { QuotesResponse } from "@/types/api";
+import type { StockData } from "@/types/stocks";
+
+// Fetch quotes for many symbols with a single request to /api/quotes.
+// Symbols are de-duplicated and sorted so the SWR key stays stable
+// regardless of the order the caller passes them in.
+export function useQuotes(symbols: string[], refreshInterval = 10000) {
+  const key = useMemo(
+    () => Array.from(new Set(symbols)).sort().join(','),
+    [symbols]
+  );
+
+  const { data, error, isLoading } = useSWR<QuotesResponse>(
+    key ? `/api/quotes?symbols=${encodeURIComponent(key)}` : null,
+    { refreshInterval }
+  );
+
+  const quotes = useMemo(() => {
+    const bySymbol: Record<string, StockData> = {};
+    data?.quotes.forEach(quote => {
+      bySymbol[quote.symbol] = quote;
+    });
+    return bySymbol;
+  }, [data]);
+
+  return { quotes, errors: data?.errors ?? [], error, isLoading };
+}
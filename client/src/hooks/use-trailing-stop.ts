@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { fetchDailyHistory, getDailyCandleRanges } from "@/hooks/use-daily-candles";
+import { stockLedgerService } from "@/lib/stockLedgerService";
+import { getTrailingStopPath, mergeStopMoves } from "@/lib/trade";
+import type { StockEntry, StockEntryChange, StopMove } from "@/types/ledger";
+import type { Candle } from "@/types/stocks";
+
+const NO_MOVES: StopMove[] = [];
+
+// Moves of an entry's stop-loss, following its trailing stop over the daily
+// candles in `history` (see useDailyCandles); the latest is the stop in
+// effect. Moves beyond those the entry recorded are saved when it is loaded
+// (see recordStopMoves) and with each sale (see addSellLot).
+export function useTrailingStop(entry: StockEntry | undefined, history: Candle[]): StopMove[] {
+  const tracking = entry?.status === 'Active' && entry.trailingStop !== undefined;
+
+  return useMemo(
+    () => entry && tracking && history.length > 0
+      ? mergeStopMoves(entry, getTrailingStopPath(entry, history))
+      : entry?.stopMoves ?? NO_MOVES,
+    [tracking, entry, history]
+  );
+}
+
+// Saves the moves the trailing stops of `entries` made since they were last
+// recorded, attributed to `changedBy`, so that a stop's path can be audited
+// even if the position is never sold. Returns the moves saved by entry id;
+// nothing is saved without a signed-in user.
+export async function recordStopMoves(
+  entries: StockEntry[],
+  changedBy: StockEntryChange['changedBy']
+): Promise<Map<string, StopMove[]>> {
+  const recorded = new Map<string, StopMove[]>();
+  if (!changedBy) return recorded;
+
+  const ranges = getDailyCandleRanges(entries);
+  const tracked = entries.filter(entry => entry.status === 'Active' && entry.trailingStop !== undefined);
+  await Promise.all(tracked.map(async entry => {
+    try {
+      const history = await fetchDailyHistory(entry, ranges.get(entry.symbol));
+      const stopMoves = mergeStopMoves(entry, getTrailingStopPath(entry, history));
+      if (stopMoves.length > entry.stopMoves.length) {
+        await stockLedgerService.updateEntry(entry.id, { stopMoves }, changedBy);
+        recorded.set(entry.id, stopMoves);
+      }
+    } catch (error) {
+      console.error(`Failed to record stop moves of ${entry.symbol}:`, error);
+    }
+  }));
+  return recorded;
+}
@@ -0,0 +1,59 @@
+import { useCallback } from "react";
+import useSWR from "swr";
+import { useAuth } from "@/contexts/AuthContext";
+import { watchlistService } from "@/lib/watchlistService";
+
+// Keeps the tracker grid within what one batch request and stream
+// subscription comfortably serve
+export const MAX_PINNED_SYMBOLS = 24;
+
+const NO_SYMBOLS: string[] = [];
+
+// Symbols pinned to the live tracker. Signed-in users' pins are saved to
+// their watchlist; otherwise they only last until the page is reloaded,
+// which `canSave` lets the UI point out.
+export function useWatchlist() {
+  const { user } = useAuth();
+  const uid = user?.uid;
+
+  const { data, mutate } = useSWR<string[]>(
+    ['watchlist', uid ?? 'anonymous'],
+    () => (uid ? watchlistService.getSymbols(uid) : []),
+    { refreshInterval: 0, revalidateOnFocus: false }
+  );
+  const symbols = data ?? NO_SYMBOLS;
+
+  // Optimistic: the grid updates at once and reverts if saving fails
+  const update = async (next: string[]) => {
+    await mutate(next, false);
+    if (!uid) return;
+    try {
+      await watchlistService.saveSymbols(uid, next);
+    } catch (error) {
+      await mutate();
+      throw error;
+    }
+  };
+
+  const isPinned = useCallback((symbol: string) => symbols.includes(symbol), [symbols]);
+
+  const pin = async (symbol: string) => {
+    if (symbols.includes(symbol)) return;
+    if (symbols.length >= MAX_PINNED_SYMBOLS) {
+      throw new Error(`At most ${MAX_PINNED_SYMBOLS} symbols can be pinned`);
+    }
+    await update([...symbols, symbol]);
+  };
+
+  const unpin = (symbol: string) => update(symbols.filter(s => s !== symbol));
+
+  const move = (from: number, to: number) => {
+    if (from === to) return Promise.resolve();
+    const next = [...symbols];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    return update(next);
+  };
+
+  return { symbols, isPinned, pin, unpin, move, canSave: !!uid };
+}
@@ -0,0 +1,145 @@
+import type { BrokerageFee, BrokerSchedule, StockEntry, TradeCharges, TradeType } from "@/types/ledger";
+
+// Statutory levies on Indian equity orders, as percentages of the order
+// value (rates in force from October 2024)
+const STT_PERCENT: Record<TradeType, { buy: number; sell: number }> = {
+  Delivery: { buy: 0.1, sell: 0.1 },
+  Intraday: { buy: 0, sell: 0.025 }
+};
+const STAMP_DUTY_PERCENT: Record<TradeType, number> = {  // Buy orders only
+  Delivery: 0.015,
+  Intraday: 0.003
+};
+const EXCHANGE_PERCENT = { NSE: 0.00297, BSE: 0.00375 };
+const SEBI_PERCENT = 0.0001;  // ₹10 per crore
+const GST_PERCENT = 18;  // On brokerage, exchange, SEBI and DP charges
+
+// Fee schedules offered when adding an entry. Each entry keeps a copy of the
+// one it was added with.
+export const BROKER_SCHEDULES: Record<string, BrokerSchedule> = {
+  discount: {
+    name: 'Discount (free delivery)',
+    delivery: { type: 'flat', amount: 0 },
+    intraday: { type: 'percent', percent: 0.03, cap: 20 },
+    dpCharge: 13.5
+  },
+  flat: {
+    name: 'Flat ₹20 per order',
+    delivery: { type: 'flat', amount: 20 },
+    intraday: { type: 'flat', amount: 20 },
+    dpCharge: 18.5
+  },
+  fullService: {
+    name: 'Full-service (0.5% delivery)',
+    delivery: { type: 'percent', percent: 0.5 },
+    intraday: { type: 'percent', percent: 0.05 },
+    dpCharge: 25
+  }
+};
+
+export const DEFAULT_BROKER_SCHEDULE = BROKER_SCHEDULES.discount;
+
+const NO_CHARGES: TradeCharges = {
+  brokerage: 0,
+  stt: 0,
+  exchange: 0,
+  sebi: 0,
+  stampDuty: 0,
+  gst: 0,
+  dp: 0,
+  other: 0,
+  total: 0
+};
+
+// The levies and rupee fee schedules only cover NSE (.NS) and BSE (.BO)
+// listings; other markets count just the fees entered on their lots
+export function isIndianListing(symbol: string): boolean {
+  return /\.(NS|BO)$/.test(symbol);
+}
+
+export function getBrokerage(fee: BrokerageFee, orderValue: number): number {
+  if (fee.type === 'flat') return fee.amount;
+  const brokerage = orderValue * fee.percent / 100;
+  return fee.cap !== undefined ? Math.min(brokerage, fee.cap) : brokerage;
+}
+
+function addCharges(a: TradeCharges, b: TradeCharges): TradeCharges {
+  return {
+    brokerage: a.brokerage + b.brokerage,
+    stt: a.stt + b.stt,
+    exchange: a.exchange + b.exchange,
+    sebi: a.sebi + b.sebi,
+    stampDuty: a.stampDuty + b.stampDuty,
+    gst: a.gst + b.gst,
+    dp: a.dp + b.dp,
+    other: a.other + b.other,
+    total: a.total + b.total
+  };
+}
+
+// Charges of a single buy or sell order worth `orderValue`
+export function getOrderCharges(
+  entry: Pick<StockEntry, 'symbol' | 'tradeType' | 'broker'>,
+  side: 'buy' | 'sell',
+  orderValue: number
+): TradeCharges {
+  if (!isIndianListing(entry.symbol)) return NO_CHARGES;
+
+  const { tradeType, broker } = entry;
+  const brokerage = getBrokerage(tradeType === 'Delivery' ? broker.delivery : broker.intraday, orderValue);
+  const stt = orderValue * STT_PERCENT[tradeType][side] / 100;
+  const exchange = orderValue * (entry.symbol.endsWith('.BO') ? EXCHANGE_PERCENT.BSE : EXCHANGE_PERCENT.NSE) / 100;
+  const sebi = orderValue * SEBI_PERCENT / 100;
+  const stampDuty = side === 'buy' ? orderValue * STAMP_DUTY_PERCENT[tradeType] / 100 : 0;
+  const dp = side === 'sell' && tradeType === 'Delivery' ? broker.dpCharge : 0;
+  const gst = (brokerage + exchange + sebi + dp) * GST_PERCENT / 100;
+
+  return {
+    brokerage,
+    stt,
+    exchange,
+    sebi,
+    stampDuty,
+    gst,
+    dp,
+    other: 0,
+    total: brokerage + stt + exchange + sebi + stampDuty + gst + dp
+  };
+}
+
+// Sides of the orders opening and closing a position; a short opens with a sale
+function getOrderSides(entry: Pick<StockEntry, 'direction'>): { open: 'buy' | 'sell'; close: 'buy' | 'sell' } {
+  return entry.direction === 'Short' ? { open: 'sell', close: 'buy' } : { open: 'buy', close: 'sell' };
+}
+
+// Charges on every order of an entry so far
+export function getEntryCharges(
+  entry: Pick<StockEntry, 'symbol' | 'direction' | 'tradeType' | 'broker' | 'buyLots' | 'sellLots'>
+): TradeCharges {
+  const sides = getOrderSides(entry);
+  const opens = entry.buyLots.reduce(
+    (sum, lot) => addCharges(sum, getOrderCharges(entry, sides.open, lot.price * lot.quantity)),
+    NO_CHARGES
+  );
+  const fees = entry.buyLots.reduce((sum, lot) => sum + lot.fees, 0);
+  const closes = entry.sellLots.reduce(
+    (sum, lot) => addCharges(sum, getOrderCharges(entry, sides.close, lot.price * lot.quantity)),
+    NO_CHARGES
+  );
+  return addCharges(addCharges(opens, closes), { ...NO_CHARGES, other: fees, total: fees });
+}
+
+// Charges borne by the shares sold (or covered) so far: their closing
+// orders in full and their share of the opening orders
+export function getSoldCharges(
+  entry: Pick<StockEntry, 'symbol' | 'direction' | 'tradeType' | 'broker' | 'buyLots' | 'sellLots' | 'quantity'>
+): number {
+  const sold = entry.sellLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (sold === 0) return 0;
+  const openCharges = getEntryCharges({ ...entry, sellLots: [] }).total;
+  const closeCharges = entry.sellLots.reduce(
+    (sum, lot) => sum + getOrderCharges(entry, getOrderSides(entry).close, lot.price * lot.quantity).total,
+    0
+  );
+  return closeCharges + openCharges * sold / entry.quantity;
+}
@@ -0,0 +1,67 @@
+import type { Candle } from "@/types/stocks";
+
+// How compared series are normalized: rebased so each starts at 100, or as
+// the percentage change since the start of the window
+export type ComparisonScale = 'rebased' | 'percent';
+
+// Indices offered as benchmarks in comparison mode
+export const BENCHMARK_INDICES = [
+  { symbol: '^NSEI', name: 'NIFTY 50' },
+  { symbol: '^BSESN', name: 'SENSEX' },
+  { symbol: '^NSEBANK', name: 'BANKNIFTY' },
+  { symbol: '^GSPC', name: 'S&P 500' }
+];
+
+export interface ComparisonPoint {
+  time: number;
+  values: Record<string, number | null>; // Normalized value by symbol; null where a series has no candle
+}
+
+export interface Comparison {
+  points: ComparisonPoint[];
+  returns: Record<string, number | null>; // Total return over the window in percent, by symbol
+}
+
+function normalize(close: number, base: number, scale: ComparisonScale): number {
+  return scale === 'rebased' ? (close / base) * 100 : (close / base - 1) * 100;
+}
+
+// Merge several candle series onto one time axis, each normalized against
+// its own first close in the window. Series trading different sessions
+// (e.g. NSE and NYSE) leave gaps for each other rather than being aligned.
+export function buildComparison(
+  series: Array<{ symbol: string; candles: Candle[] }>,
+  scale: ComparisonScale
+): Comparison {
+  const byTime = new Map<number, ComparisonPoint>();
+  const returns: Comparison['returns'] = {};
+
+  series.forEach(({ symbol, candles }) => {
+    const valid = candles.filter(candle => candle.close > 0);
+    if (valid.length === 0) {
+      returns[symbol] = null;
+      return;
+    }
+
+    const base = valid[0].close;
+    returns[symbol] = (valid[valid.length - 1].close / base - 1) * 100;
+
+    valid.forEach(candle => {
+      let point = byTime.get(candle.time);
+      if (!point) {
+        point = { time: candle.time, values: {} };
+        byTime.set(candle.time, point);
+      }
+      point.values[symbol] = normalize(candle.close, base, scale);
+    });
+  });
+
+  const points = Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+  points.forEach(point => {
+    series.forEach(({ symbol }) => {
+      if (!(symbol in point.values)) point.values[symbol] = null;
+    });
+  });
+
+  return { points, returns };
+}
@@ -0,0 +1,22 @@
+import { INDIAN_INDICES } from "./market";
+
+// Currency prefix for prices of a symbol: Indian listings (NSE .NS and
+// BSE .BO) and Indian indices are in rupees, everything else in dollars
+export function getCurrencySymbol(symbol: string): string {
+  return /\.(NS|BO)$/.test(symbol) || INDIAN_INDICES.includes(symbol) ? '₹' : '$';
+}
+
+// Money amount with thousands separators, grouped the Indian way for rupees,
+// e.g. ₹1,25,000.00
+export function formatMoney(currency: string, amount: number): string {
+  const locale = currency === '₹' ? 'en-IN' : 'en-US';
+  return `${currency}${amount.toLocaleString(locale, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  })}`;
+}
+
+// Money amount in the currency a symbol is priced in
+export function formatAmount(symbol: string, amount: number): string {
+  return formatMoney(getCurrencySymbol(symbol), amount);
+}
@@ -0,0 +1,99 @@
+import {
+  collection,
+  addDoc,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  where,
+  Timestamp,
+  DocumentData,
+  FirestoreError,
+} from 'firebase/firestore';
+import { db } from './firebase';
+import { INDICATORS } from './indicators';
+import type { IndicatorConfig, IndicatorPreset } from '@/types/indicators';
+
+const COLLECTION_NAME = 'indicatorPresets';
+
+function toIsoString(value: unknown): string {
+  return value instanceof Timestamp ? value.toDate().toISOString() : String(value ?? '');
+}
+
+// Drop indicators this version of the app does not know about
+function sanitizeIndicators(value: unknown): IndicatorConfig[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((indicator): indicator is IndicatorConfig => (
+    typeof indicator?.id === 'string' &&
+    indicator?.type in INDICATORS &&
+    typeof indicator?.params === 'object'
+  ));
+}
+
+function convertFirestoreToPreset(id: string, data: DocumentData): IndicatorPreset {
+  return {
+    id,
+    uid: data.uid,
+    name: data.name,
+    indicators: sanitizeIndicators(data.indicators),
+    createdAt: toIsoString(data.createdAt),
+    updatedAt: toIsoString(data.updatedAt)
+  };
+}
+
+function handleFirestoreError(error: unknown, operation: string): never {
+  console.error(`Firestore ${operation} error:`, error);
+
+  if (error instanceof FirestoreError && error.code === 'permission-denied') {
+    throw new Error('You do not have permission to manage these indicator presets.');
+  }
+  throw new Error(`Failed to ${operation}: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`);
+}
+
+// Saved chart indicator sets, private to the user who created them
+export const indicatorPresetService = {
+  async getPresets(uid: string): Promise<IndicatorPreset[]> {
+    try {
+      const q = query(collection(db, COLLECTION_NAME), where('uid', '==', uid));
+      const snapshot = await getDocs(q);
+      return snapshot.docs
+        .map(doc => convertFirestoreToPreset(doc.id, doc.data()))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      return handleFirestoreError(error, 'load indicator presets');
+    }
+  },
+
+  async savePreset(uid: string, name: string, indicators: IndicatorConfig[]): Promise<IndicatorPreset> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Preset name is required');
+    }
+    if (indicators.length === 0) {
+      throw new Error('Add at least one indicator before saving a preset');
+    }
+
+    try {
+      const now = Timestamp.now();
+      const data = {
+        uid,
+        name: trimmedName,
+        indicators: indicators.map(({ id, type, params }) => ({ id, type, params })),
+        createdAt: now,
+        updatedAt: now
+      };
+      const docRef = await addDoc(collection(db, COLLECTION_NAME), data);
+      return convertFirestoreToPreset(docRef.id, data);
+    } catch (error) {
+      return handleFirestoreError(error, 'save indicator preset');
+    }
+  },
+
+  async deletePreset(id: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, COLLECTION_NAME, id));
+    } catch (error) {
+      handleFirestoreError(error, 'delete indicator preset');
+    }
+  }
+};
@@ -0,0 +1,316 @@
+import type { Candle } from "@/types/stocks";
+import type {
+  IndicatorConfig,
+  IndicatorLine,
+  IndicatorPlacement,
+  IndicatorType
+} from "@/types/indicators";
+
+type Series = Array<number | null>;
+
+interface IndicatorParam {
+  key: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  max: number;
+  step?: number;
+}
+
+interface IndicatorDefinition {
+  type: IndicatorType;
+  name: string;
+  placement: IndicatorPlacement;
+  params: IndicatorParam[];
+  // Fixed levels drawn on a pane, e.g. RSI 30/70
+  levels?: number[];
+  compute: (candles: Candle[], params: Record<string, number>) => Array<Omit<IndicatorLine, 'key' | 'color'> & { name: string }>;
+}
+
+// Moving averages -----------------------------------------------------------
+
+export function sma(values: Series, period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  let sum = 0;
+  let count = 0;
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      // Restart the window after a gap
+      sum = 0;
+      count = 0;
+      return;
+    }
+    sum += value;
+    count++;
+    if (count > period) {
+      sum -= values[index - period]!;
+      count = period;
+    }
+    if (count === period) result[index] = sum / period;
+  });
+
+  return result;
+}
+
+// Exponential moving average seeded with the SMA of the first `period` values.
+// Leading nulls (e.g. MACD before the slow EMA exists) are skipped.
+export function ema(values: Series, period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  let seed: number[] = [];
+
+  values.forEach((value, index) => {
+    if (value === null) return;
+    if (previous === null) {
+      seed.push(value);
+      if (seed.length === period) {
+        previous = seed.reduce((sum, v) => sum + v, 0) / period;
+        result[index] = previous;
+        seed = [];
+      }
+      return;
+    }
+    previous = value * k + previous * (1 - k);
+    result[index] = previous;
+  });
+
+  return result;
+}
+
+// Wilder's smoothing, used by RSI and ATR
+function wilder(values: number[], period: number): Series {
+  const result: Series = new Array(values.length).fill(null);
+  if (values.length < period) return result;
+
+  let average = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  result[period - 1] = average;
+  for (let index = period; index < values.length; index++) {
+    average = (average * (period - 1) + values[index]) / period;
+    result[index] = average;
+  }
+  return result;
+}
+
+// Bands and oscillators ------------------------------------------------------
+
+export function bollingerBands(closes: number[], period: number, stdDev: number) {
+  const middle = sma(closes, period);
+  const upper: Series = new Array(closes.length).fill(null);
+  const lower: Series = new Array(closes.length).fill(null);
+
+  middle.forEach((mean, index) => {
+    if (mean === null) return;
+    const window = closes.slice(index - period + 1, index + 1);
+    const variance = window.reduce((sum, v) => sum + (v - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance) * stdDev;
+    upper[index] = mean + deviation;
+    lower[index] = mean - deviation;
+  });
+
+  return { upper, middle, lower };
+}
+
+export function rsi(closes: number[], period: number): Series {
+  const result: Series = new Array(closes.length).fill(null);
+  if (closes.length <= period) return result;
+
+  const gains: number[] = [];
+  const losses: number[] = [];
+  for (let index = 1; index < closes.length; index++) {
+    const change = closes[index] - closes[index - 1];
+    gains.push(Math.max(change, 0));
+    losses.push(Math.max(-change, 0));
+  }
+
+  const averageGain = wilder(gains, period);
+  const averageLoss = wilder(losses, period);
+  averageGain.forEach((gain, index) => {
+    const loss = averageLoss[index];
+    if (gain === null || loss === null) return;
+    // Changes start at the second candle
+    result[index + 1] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  });
+
+  return result;
+}
+
+export function macd(closes: number[], fast: number, slow: number, signalPeriod: number) {
+  const fastEma = ema(closes, fast);
+  const slowEma = ema(closes, slow);
+  const line: Series = closes.map((_, index) => {
+    const f = fastEma[index];
+    const s = slowEma[index];
+    return f === null || s === null ? null : f - s;
+  });
+  const signal = ema(line, signalPeriod);
+  const histogram: Series = line.map((value, index) => {
+    const s = signal[index];
+    return value === null || s === null ? null : value - s;
+  });
+  return { line, signal, histogram };
+}
+
+export function atr(candles: Candle[], period: number): Series {
+  const trueRanges = candles.map((candle, index) => {
+    if (index === 0) return candle.high - candle.low;
+    const previousClose = candles[index - 1].close;
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose)
+    );
+  });
+  return wilder(trueRanges, period);
+}
+
+// Cumulative VWAP of the typical price. Intraday candles restart at every
+// session; daily and longer candles are anchored at the start of the range.
+export function vwap(candles: Candle[], intraday: boolean): Series {
+  let weighted = 0;
+  let volume = 0;
+  let session = '';
+
+  return candles.map(candle => {
+    const day = new Date(candle.time * 1000).toISOString().slice(0, 10);
+    if (intraday && day !== session) {
+      session = day;
+      weighted = 0;
+      volume = 0;
+    }
+    weighted += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+    return volume > 0 ? weighted / volume : null;
+  });
+}
+
+// Registry -------------------------------------------------------------------
+
+const closesOf = (candles: Candle[]) => candles.map(candle => candle.close);
+
+export const INDICATORS: Record<IndicatorType, IndicatorDefinition> = {
+  SMA: {
+    type: 'SMA',
+    name: 'Simple Moving Average',
+    placement: 'overlay',
+    params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 2, max: 200 }],
+    compute: (candles, { period }) => [
+      { name: 'sma', label: `SMA(${period})`, values: sma(closesOf(candles), period) }
+    ]
+  },
+  EMA: {
+    type: 'EMA',
+    name: 'Exponential Moving Average',
+    placement: 'overlay',
+    params: [{ key: 'period', label: 'Period', defaultValue: 20, min: 2, max: 200 }],
+    compute: (candles, { period }) => [
+      { name: 'ema', label: `EMA(${period})`, values: ema(closesOf(candles), period) }
+    ]
+  },
+  BB: {
+    type: 'BB',
+    name: 'Bollinger Bands',
+    placement: 'overlay',
+    params: [
+      { key: 'period', label: 'Period', defaultValue: 20, min: 2, max: 200 },
+      { key: 'stdDev', label: 'Std dev', defaultValue: 2, min: 0.5, max: 5, step: 0.5 }
+    ],
+    compute: (candles, { period, stdDev }) => {
+      const { upper, middle, lower } = bollingerBands(closesOf(candles), period, stdDev);
+      return [
+        { name: 'upper', label: `BB(${period}, ${stdDev}) upper`, values: upper },
+        { name: 'middle', label: `BB(${period}, ${stdDev}) middle`, values: middle },
+        { name: 'lower', label: `BB(${period}, ${stdDev}) lower`, values: lower }
+      ];
+    }
+  },
+  VWAP: {
+    type: 'VWAP',
+    name: 'VWAP',
+    placement: 'overlay',
+    params: [],
+    compute: (candles) => {
+      // Gaps of an hour or less between candles mean intraday data
+      const intraday = candles.length > 1 && candles[1].time - candles[0].time <= 3600;
+      return [{ name: 'vwap', label: 'VWAP', values: vwap(candles, intraday) }];
+    }
+  },
+  RSI: {
+    type: 'RSI',
+    name: 'Relative Strength Index',
+    placement: 'pane',
+    params: [{ key: 'period', label: 'Period', defaultValue: 14, min: 2, max: 100 }],
+    levels: [30, 70],
+    compute: (candles, { period }) => [
+      { name: 'rsi', label: `RSI(${period})`, values: rsi(closesOf(candles), period) }
+    ]
+  },
+  MACD: {
+    type: 'MACD',
+    name: 'MACD',
+    placement: 'pane',
+    params: [
+      { key: 'fast', label: 'Fast', defaultValue: 12, min: 2, max: 100 },
+      { key: 'slow', label: 'Slow', defaultValue: 26, min: 2, max: 200 },
+      { key: 'signal', label: 'Signal', defaultValue: 9, min: 2, max: 100 }
+    ],
+    levels: [0],
+    compute: (candles, { fast, slow, signal }) => {
+      const result = macd(closesOf(candles), fast, slow, signal);
+      return [
+        { name: 'histogram', label: 'Histogram', values: result.histogram, style: 'histogram' },
+        { name: 'macd', label: `MACD(${fast}, ${slow})`, values: result.line },
+        { name: 'signal', label: `Signal(${signal})`, values: result.signal }
+      ];
+    }
+  },
+  ATR: {
+    type: 'ATR',
+    name: 'Average True Range',
+    placement: 'pane',
+    params: [{ key: 'period', label: 'Period', defaultValue: 14, min: 2, max: 100 }],
+    compute: (candles, { period }) => [
+      { name: 'atr', label: `ATR(${period})`, values: atr(candles, period) }
+    ]
+  }
+};
+
+const INDICATOR_COLORS = ['#f59e0b', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16', '#f97316', '#6366f1'];
+
+let nextIndicatorId = 0;
+
+// New indicator with default parameters, overridden by `params` if given
+export function createIndicator(type: IndicatorType, params: Record<string, number> = {}): IndicatorConfig {
+  const defaults: Record<string, number> = {};
+  INDICATORS[type].params.forEach(param => {
+    defaults[param.key] = param.defaultValue;
+  });
+  return {
+    id: `${type}-${Date.now().toString(36)}-${nextIndicatorId++}`,
+    type,
+    params: { ...defaults, ...params }
+  };
+}
+
+export function describeIndicator({ type, params }: IndicatorConfig): string {
+  const values = INDICATORS[type].params.map(param => params[param.key]);
+  return values.length > 0 ? `${type}(${values.join(', ')})` : type;
+}
+
+// Plotted series of an indicator, with a stable color per position in the
+// active indicator list
+export function computeIndicator(config: IndicatorConfig, candles: Candle[], position: number): IndicatorLine[] {
+  const definition = INDICATORS[config.type];
+  const { params } = createIndicator(config.type, config.params);
+  const baseColor = INDICATOR_COLORS[position % INDICATOR_COLORS.length];
+
+  return definition.compute(candles, params).map((line, index) => ({
+    key: `${config.id}:${line.name}`,
+    label: line.label,
+    values: line.values,
+    style: line.style,
+    // Bollinger Bands are drawn in one color; MACD/signal lines take the next ones
+    color: index === 0 || config.type === 'BB' ? baseColor : INDICATOR_COLORS[(position + index) % INDICATOR_COLORS.length]
+  }));
+}
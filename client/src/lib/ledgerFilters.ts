@@ -0,0 +1,122 @@
+import { getRiskReward } from "@/lib/trade";
+import type {
+  StockEntry,
+  StockLedgerFilters,
+  StockLedgerSort,
+  StockLedgerSortField
+} from "@/types/ledger";
+
+// Newest entries first, matching the order the ledger is stored in
+export const DEFAULT_LEDGER_SORT: StockLedgerSort = { field: 'createdAt', direction: 'desc' };
+
+export const LEDGER_SORT_FIELDS: Record<StockLedgerSortField, string> = {
+  createdAt: 'Date added',
+  dateBuy: 'Buy date',
+  stockName: 'Stock name',
+  riskReward: 'Risk/Reward',
+  confidence: 'Confidence'
+};
+
+const STATUSES = ['Active', 'Closed'] as const;
+const DIRECTIONS = ['Long', 'Short'] as const;
+const CONFIDENCE_LEVELS = ['Low', 'Medium', 'High'] as const;
+
+function oneOf<T extends string>(values: readonly T[], value: string | null): T | undefined {
+  return values.find(v => v === value);
+}
+
+function isDate(value: string | null): value is string {
+  return !!value && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+// Ledger filters and sort order from a query string such as
+// `status=Active&direction=Short&sort=dateBuy&order=asc`. Unknown or
+// malformed parameters are ignored.
+export function parseLedgerQuery(search: string): { filters: StockLedgerFilters; sort: StockLedgerSort } {
+  const params = new URLSearchParams(search);
+
+  const filters: StockLedgerFilters = {};
+  const status = oneOf(STATUSES, params.get('status'));
+  if (status) filters.status = status;
+  const direction = oneOf(DIRECTIONS, params.get('direction'));
+  if (direction) filters.direction = direction;
+  const confidence = oneOf(CONFIDENCE_LEVELS, params.get('confidence'));
+  if (confidence) filters.confidence = confidence;
+  const from = params.get('from');
+  const to = params.get('to');
+  if (isDate(from) || isDate(to)) {
+    filters.dateRange = { start: isDate(from) ? from : '', end: isDate(to) ? to : '' };
+  }
+  // Kept untrimmed so a space typed into the search box survives the round trip
+  const q = params.get('q');
+  if (q?.trim()) filters.search = q;
+
+  const field = oneOf(Object.keys(LEDGER_SORT_FIELDS) as StockLedgerSortField[], params.get('sort'));
+  const order = oneOf(['asc', 'desc'] as const, params.get('order'));
+  const sort: StockLedgerSort = {
+    field: field ?? DEFAULT_LEDGER_SORT.field,
+    direction: order ?? DEFAULT_LEDGER_SORT.direction
+  };
+
+  return { filters, sort };
+}
+
+// Inverse of parseLedgerQuery; defaults are left out to keep links short
+export function toLedgerSearch(filters: StockLedgerFilters, sort: StockLedgerSort): string {
+  const params = new URLSearchParams();
+  if (filters.status) params.set('status', filters.status);
+  if (filters.direction) params.set('direction', filters.direction);
+  if (filters.confidence) params.set('confidence', filters.confidence);
+  if (filters.dateRange?.start) params.set('from', filters.dateRange.start);
+  if (filters.dateRange?.end) params.set('to', filters.dateRange.end);
+  if (filters.search) params.set('q', filters.search);
+  if (sort.field !== DEFAULT_LEDGER_SORT.field) params.set('sort', sort.field);
+  if (sort.direction !== DEFAULT_LEDGER_SORT.direction) params.set('order', sort.direction);
+
+  const search = params.toString();
+  return search ? `?${search}` : '';
+}
+
+function compareEntries(a: StockEntry, b: StockEntry, field: StockLedgerSortField): number {
+  switch (field) {
+    case 'stockName':
+      return a.stockName.localeCompare(b.stockName);
+    case 'riskReward':
+      return getRiskReward(a) - getRiskReward(b);
+    case 'confidence':
+      return CONFIDENCE_LEVELS.indexOf(a.confidence) - CONFIDENCE_LEVELS.indexOf(b.confidence);
+    case 'dateBuy':
+    case 'createdAt':
+      return new Date(a[field]).getTime() - new Date(b[field]).getTime();
+  }
+}
+
+export function applyLedgerQuery(
+  entries: StockEntry[],
+  filters: StockLedgerFilters,
+  sort: StockLedgerSort
+): StockEntry[] {
+  const search = filters.search?.trim().toLowerCase();
+  // Compare calendar days in local time, as the dates are picked
+  const buyDay = (entry: StockEntry) => {
+    const date = new Date(entry.dateBuy);
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+
+  const filtered = entries.filter(entry => {
+    if (filters.status && entry.status !== filters.status) return false;
+    if (filters.direction && entry.direction !== filters.direction) return false;
+    if (filters.confidence && entry.confidence !== filters.confidence) return false;
+    if (filters.dateRange?.start && buyDay(entry) < filters.dateRange.start) return false;
+    if (filters.dateRange?.end && buyDay(entry) > filters.dateRange.end) return false;
+    if (search && !entry.stockName.toLowerCase().includes(search) && !entry.symbol.toLowerCase().includes(search)) {
+      return false;
+    }
+    return true;
+  });
+
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return filtered.sort((a, b) => sign * compareEntries(a, b, sort.field));
+}
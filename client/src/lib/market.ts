@@ -0,0 +1,9 @@
+import type { MarketCalendarId } from "@/types/stocks";
+
+export const INDIAN_INDICES = ['^NSEI', '^BSESN', '^NSEBANK'];
+
+// Trading calendar a symbol follows, mirroring the server: Indian listings
+// and indices trade on NSE hours, everything else on NYSE hours
+export function getMarketForSymbol(symbol: string): MarketCalendarId {
+  return /\.(NS|BO)$/.test(symbol) || INDIAN_INDICES.includes(symbol) ? 'NSE' : 'NYSE';
+}
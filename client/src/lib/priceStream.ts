@@ -0,0 +1,146 @@
+import type { StockData } from '@/types/stocks';
+
+const STREAM_PATH = '/ws/prices';
+const MAX_RECONNECT_DELAY = 30000;
+
+type QuoteListener = (quote: StockData) => void;
+type StatusListener = (connected: boolean) => void;
+
+type ServerMessage =
+  | { type: 'price'; quote: StockData }
+  | { type: 'error'; symbol?: string; details: string; code: string };
+
+// Single shared WebSocket connection to the server's price stream.
+// Subscriptions are reference counted so several components can watch the
+// same symbol, and the socket reconnects with backoff while anyone is
+// still subscribed.
+class PriceStream {
+  private socket: WebSocket | null = null;
+  private subscriptions = new Map<string, number>();
+  private quoteListeners = new Set<QuoteListener>();
+  private statusListeners = new Set<StatusListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+
+  connected = false;
+
+  subscribe(symbols: string[]): () => void {
+    const added = symbols.filter(symbol => {
+      const count = this.subscriptions.get(symbol) ?? 0;
+      this.subscriptions.set(symbol, count + 1);
+      return count === 0;
+    });
+
+    if (added.length > 0) {
+      this.send({ type: 'subscribe', symbols: added });
+    }
+    this.ensureConnected();
+
+    return () => {
+      const removed = symbols.filter(symbol => {
+        const count = (this.subscriptions.get(symbol) ?? 1) - 1;
+        if (count <= 0) {
+          this.subscriptions.delete(symbol);
+          return true;
+        }
+        this.subscriptions.set(symbol, count);
+        return false;
+      });
+
+      if (removed.length > 0) {
+        this.send({ type: 'unsubscribe', symbols: removed });
+      }
+      if (this.subscriptions.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  onQuote(listener: QuoteListener): () => void {
+    this.quoteListeners.add(listener);
+    return () => {
+      this.quoteListeners.delete(listener);
+    };
+  }
+
+  onStatus(listener: StatusListener): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  private send(message: unknown) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private setConnected(connected: boolean) {
+    if (this.connected === connected) return;
+    this.connected = connected;
+    this.statusListeners.forEach(listener => listener(connected));
+  }
+
+  private ensureConnected() {
+    if (this.socket || this.reconnectTimer || typeof WebSocket === 'undefined') return;
+
+    const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+    const socket = new WebSocket(`${protocol}://${window.location.host}${STREAM_PATH}`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0;
+      this.setConnected(true);
+      // Re-establish every subscription after (re)connecting
+      if (this.subscriptions.size > 0) {
+        this.send({ type: 'subscribe', symbols: Array.from(this.subscriptions.keys()) });
+      }
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data) as ServerMessage;
+        if (message.type === 'price') {
+          this.quoteListeners.forEach(listener => listener(message.quote));
+        } else if (message.type === 'error') {
+          console.warn('Price stream error:', message);
+        }
+      } catch (error) {
+        console.error('Invalid price stream message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.setConnected(false);
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    if (this.subscriptions.size === 0 || this.reconnectTimer) return;
+
+    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempt), MAX_RECONNECT_DELAY);
+    this.reconnectAttempt++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.ensureConnected();
+    }, delay);
+  }
+
+  private disconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const socket = this.socket;
+    this.socket = null;
+    this.reconnectAttempt = 0;
+    this.setConnected(false);
+    socket?.close();
+  }
+}
+
+export const priceStream = new PriceStream();
@@ -4,6 +4,7 @@ import {
   updateDoc, 
   deleteDoc, 
   doc, 
+  getDoc,
   getDocs,
   query,
   orderBy,
@@ -12,9 +13,28 @@ import {
   FirestoreError,
 } from 'firebase/firestore';
 import { db } from './firebase';
-import type { NewStockEntry, StockEntry } from '@/types/ledger';
+import { DEFAULT_BROKER_SCHEDULE } from './charges';
+import { getRiskReward, summarizeBuyLots, summarizeTargets } from './trade';
+import type {
+  BrokerageFee,
+  BrokerSchedule,
+  BuyLot,
+  NewStockEntry,
+  SellLot,
+  StagedTarget,
+  StockEntry,
+  StockEntryChange,
+  StopMove,
+  TradeDirection,
+  TradeType,
+  TrailingStop
+} from '@/types/ledger';
 
 const COLLECTION_NAME = 'stockEntries';
+// Per-entry subcollection recording every edit
+const HISTORY_COLLECTION_NAME = 'history';
+// Stored fields the risk/reward ratio is computed from
+const RISK_REWARD_FIELDS = ['direction', 'priceBuy', 'targetPercent', 'stopLossPercent', 'targetPrice', 'stopLossPrice'];
 const MAX_RETRIES = process.env.NODE_ENV === 'production' ? 5 : 3;
 const RETRY_DELAY = process.env.NODE_ENV === 'production' ? 2000 : 1000; // 2 seconds for production, 1 second for development
 
@@ -153,6 +173,144 @@ function validateNumericField(value: any, fieldName: string): number {
   return num;
 }
 
+// Quantities are whole shares
+function validateQuantity(value: unknown): number {
+  const quantity = validateNumericField(value, 'Quantity');
+  if (!Number.isInteger(quantity)) {
+    throw new Error('Quantity must be a whole number of shares');
+  }
+  return quantity;
+}
+
+// A position holds at least one purchase
+function validateBuyLots(lots: unknown): BuyLot[] {
+  if (!Array.isArray(lots) || lots.length === 0) {
+    throw new Error('At least one buy lot is required');
+  }
+  return lots.map((lot: Partial<BuyLot>) => {
+    const fees = lot.fees ? validateAndFormatNumber(lot.fees, 'Fees') : 0;
+    if (fees < 0) {
+      throw new Error('Fees cannot be negative');
+    }
+    return {
+      date: validateAndFormatDate(lot.date),
+      price: validateNumericField(lot.price, 'Buy price'),
+      quantity: validateQuantity(lot.quantity),
+      fees
+    };
+  });
+}
+
+function validateSellLots(lots: unknown): SellLot[] {
+  if (!Array.isArray(lots)) {
+    throw new Error('Sell lots must be a list');
+  }
+  return lots.map((lot: Partial<SellLot>) => ({
+    date: validateAndFormatDate(lot.date),
+    price: validateNumericField(lot.price, 'Sell price'),
+    quantity: validateQuantity(lot.quantity),
+    costBasis: validateNumericField(lot.costBasis, 'Cost basis')
+  }));
+}
+
+// A scale-out plan books the whole position across its targets
+function validateTargets(targets: unknown): StagedTarget[] {
+  if (!Array.isArray(targets) || targets.length === 0) {
+    throw new Error('At least one target is required');
+  }
+  const validated = targets.map((target: Partial<StagedTarget>) => {
+    const percent = validateNumericField(target.percent, 'Target percentage');
+    const allocation = validateNumericField(target.allocation, 'Target allocation');
+    // Firestore rejects undefined values, so a target entered as a
+    // percentage has no price key
+    return target.price !== undefined && target.price !== null
+      ? { percent, price: validateNumericField(target.price, 'Target price'), allocation }
+      : { percent, allocation };
+  });
+  const allocated = validated.reduce((sum, target) => sum + target.allocation, 0);
+  if (Math.abs(allocated - 100) > 0.01) {
+    throw new Error('Target allocations must add up to 100%');
+  }
+  return validated;
+}
+
+function validateTrailingStop(rule: Partial<TrailingStop> & Record<string, unknown>): TrailingStop {
+  switch (rule.type) {
+    case 'percent':
+      return { type: 'percent', percent: validateNumericField(rule.percent, 'Trailing stop percentage') };
+    case 'atr': {
+      const period = validateNumericField(rule.period, 'ATR period');
+      if (!Number.isInteger(period)) {
+        throw new Error('ATR period must be a whole number of days');
+      }
+      return { type: 'atr', multiple: validateNumericField(rule.multiple, 'ATR multiple'), period };
+    }
+    case 'breakeven':
+      return { type: 'breakeven' };
+    default:
+      throw new Error('Invalid trailing stop');
+  }
+}
+
+function validateStopMoves(moves: unknown): StopMove[] {
+  if (!Array.isArray(moves)) {
+    throw new Error('Stop moves must be a list');
+  }
+  return moves.map((move: Partial<StopMove>) => ({
+    date: validateAndFormatDate(move.date),
+    price: validateNumericField(move.price, 'Stop price')
+  }));
+}
+
+function validateDirection(value: unknown): TradeDirection {
+  if (value !== 'Long' && value !== 'Short') {
+    throw new Error('Invalid trade direction');
+  }
+  return value;
+}
+
+function validateTradeType(value: unknown): TradeType {
+  if (value !== 'Delivery' && value !== 'Intraday') {
+    throw new Error('Invalid trade type');
+  }
+  return value;
+}
+
+function validateBrokerageFee(fee: Partial<BrokerageFee> | undefined, fieldName: string): BrokerageFee {
+  if (fee?.type === 'flat') {
+    const amount = validateAndFormatNumber(fee.amount, fieldName);
+    if (amount < 0) throw new Error(`${fieldName} cannot be negative`);
+    return { type: 'flat', amount };
+  }
+  if (fee?.type === 'percent') {
+    const percent = validateAndFormatNumber(fee.percent, fieldName);
+    if (percent < 0) throw new Error(`${fieldName} cannot be negative`);
+    // Firestore rejects undefined values, so an uncapped fee has no cap key
+    return fee.cap !== undefined && fee.cap !== null
+      ? { type: 'percent', percent, cap: validateNumericField(fee.cap, `${fieldName} cap`) }
+      : { type: 'percent', percent };
+  }
+  throw new Error(`${fieldName} must be a flat or percentage fee`);
+}
+
+function validateBrokerSchedule(broker: Partial<BrokerSchedule> | undefined): BrokerSchedule {
+  const dpCharge = validateAndFormatNumber(broker?.dpCharge, 'DP charge');
+  if (dpCharge < 0) {
+    throw new Error('DP charge cannot be negative');
+  }
+  return {
+    name: validateString(broker?.name, 'Broker name'),
+    delivery: validateBrokerageFee(broker?.delivery, 'Delivery brokerage'),
+    intraday: validateBrokerageFee(broker?.intraday, 'Intraday brokerage'),
+    dpCharge
+  };
+}
+
+// Lots and stop moves as stored, with Timestamp dates
+function toStoredLots<T extends { date: string }>(lots: T[]) {
+  return lots.map(lot => ({ ...lot, date: Timestamp.fromDate(new Date(lot.date)) }));
+}
+
 // Helper function to convert Firestore data to StockEntry
 function convertFirestoreToStockEntry(id: string, data: DocumentData): StockEntry {
   try {
@@ -171,19 +329,65 @@ function convertFirestoreToStockEntry(id: string, data: DocumentData): StockEntr
     }
 
     // Validate and format dates
-    const dateBuy = validateAndFormatDate(data.dateBuy);
     const createdAt = validateAndFormatDate(data.createdAt);
     const updatedAt = validateAndFormatDate(data.updatedAt);
-    
+
+    // Entries saved before lots were tracked were a single purchase, and
+    // before quantities were tracked a single share
+    const buyLots: BuyLot[] = Array.isArray(data.buyLots) && data.buyLots.length > 0
+      ? data.buyLots.map((lot: DocumentData) => ({
+          date: validateAndFormatDate(lot.date),
+          price: validateAndFormatNumber(lot.price, 'Buy price'),
+          quantity: validateAndFormatNumber(lot.quantity, 'Quantity'),
+          fees: lot.fees ? validateAndFormatNumber(lot.fees, 'Fees') : 0
+        }))
+      : [{
+          date: validateAndFormatDate(data.dateBuy),
+          price: validateAndFormatNumber(data.priceBuy, 'Buy price'),
+          quantity: data.quantity ? validateAndFormatNumber(data.quantity, 'Quantity') : 1,
+          fees: 0
+        }];
+
     // Validate and format numbers
-    const priceBuy = validateAndFormatNumber(data.priceBuy, 'Buy price');
     const targetPercent = validateAndFormatNumber(data.targetPercent, 'Target percentage');
     const stopLossPercent = validateAndFormatNumber(data.stopLossPercent, 'Stop loss percentage');
+    const targetPrice = data.targetPrice ? validateAndFormatNumber(data.targetPrice, 'Target price') : undefined;
+    const stopLossPrice = data.stopLossPrice ? validateAndFormatNumber(data.stopLossPrice, 'Stop loss price') : undefined;
+    // Entries saved before scale-out plans booked everything at their target
+    const targets: StagedTarget[] = Array.isArray(data.targets) && data.targets.length > 0
+      ? data.targets.map((target: DocumentData) => ({
+          percent: validateAndFormatNumber(target.percent, 'Target percentage'),
+          price: target.price ? validateAndFormatNumber(target.price, 'Target price') : undefined,
+          allocation: validateAndFormatNumber(target.allocation, 'Target allocation')
+        }))
+      : [{ percent: targetPercent, price: targetPrice, allocation: 100 }];
+
+    const trailingStop = data.trailingStop ? validateTrailingStop(data.trailingStop) : undefined;
+    const stopMoves: StopMove[] = Array.isArray(data.stopMoves)
+      ? data.stopMoves.map((move: DocumentData) => ({
+          date: validateAndFormatDate(move.date),
+          price: validateAndFormatNumber(move.price, 'Stop price')
+        }))
+      : [];
 
     // Optional fields with validation
     const chartLink = data.chartLink ? validateString(data.chartLink, 'Chart link') : undefined;
     const dateSell = data.dateSell ? validateAndFormatDate(data.dateSell) : undefined;
     const priceSell = data.priceSell ? validateAndFormatNumber(data.priceSell, 'Sell price') : undefined;
+    // Entries closed before partial exits were tracked sold everything at
+    // once, and sales before their cost basis was kept were booked at the
+    // average buy price
+    const position = summarizeBuyLots(buyLots);
+    const sellLots: SellLot[] = Array.isArray(data.sellLots)
+      ? data.sellLots.map((lot: DocumentData) => ({
+          date: validateAndFormatDate(lot.date),
+          price: validateAndFormatNumber(lot.price, 'Sell price'),
+          quantity: validateAndFormatNumber(lot.quantity, 'Quantity'),
+          costBasis: lot.costBasis ? validateAndFormatNumber(lot.costBasis, 'Cost basis') : position.priceBuy
+        }))
+      : dateSell && priceSell
+        ? [{ date: dateSell, price: priceSell, quantity: position.quantity, costBasis: position.priceBuy }]
+        : [];
     const profitLoss = data.profitLoss ? validateAndFormatNumber(data.profitLoss, 'Profit/Loss') : undefined;
     
     const status = validateString(data.status, 'Status');
@@ -191,26 +395,50 @@ function convertFirestoreToStockEntry(id: string, data: DocumentData): StockEntr
       throw new Error('Invalid status');
     }
 
+    // Entries created before shorts were tracked were all long
+    const direction = data.direction ? validateDirection(data.direction) : 'Long';
+
+    // Entries created before charges were tracked were delivery trades
+    // with the default broker
+    const tradeType = data.tradeType ? validateTradeType(data.tradeType) : 'Delivery';
+    const broker = data.broker ? validateBrokerSchedule(data.broker) : DEFAULT_BROKER_SCHEDULE;
+
+    // Entries created before source and author were stored lack them
+    const source = typeof data.source === 'string' ? data.source : '';
+    const addedBy = {
+      uid: data.addedBy?.uid ?? '',
+      email: data.addedBy?.email ?? '',
+      displayName: data.addedBy?.displayName ?? null
+    };
+
     return {
       id,
       stockName,
       symbol,
-      dateBuy,
-      priceBuy,
-      targetPercent,
+      direction,
+      ...position,
+      ...summarizeTargets(targets),
       stopLossPercent,
+      stopLossPrice,
+      trailingStop,
+      stopMoves,
       reason,
       chartLink,
-      confidence,
+      source,
+      confidence: confidence as StockEntry['confidence'],
+      tradeType,
+      broker,
       riskReward: data.riskReward ? Number(data.riskReward) : undefined,
+      sellLots,
       profitLoss,
       hitTarget: Boolean(data.hitTarget),
       hitStopLoss: Boolean(data.hitStopLoss),
       dateSell,
       priceSell,
-      status,
+      status: status as StockEntry['status'],
       createdAt,
-      updatedAt
+      updatedAt,
+      addedBy
     };
   } catch (error) {
     safeConsoleLog(`Error converting document ${id}:`, error);
@@ -218,6 +446,51 @@ function convertFirestoreToStockEntry(id: string, data: DocumentData): StockEntr
   }
 }
 
+// Stored value with Timestamps as ISO strings and object keys sorted, so a
+// stored list or map compares equal to the same value about to be written
+function toPlainValue(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  if (value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(object).sort().map(key => [key, toPlainValue(object[key])]));
+  }
+  return value;
+}
+
+// Plain representation of a stored field value for the edit history. Lists
+// such as buy lots and maps such as the broker schedule are kept as JSON.
+function toHistoryValue(value: unknown): StockEntryChange['changes'][string]['from'] {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Timestamp) return value.toDate().toISOString();
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'object') return JSON.stringify(toPlainValue(value));
+  return String(value);
+}
+
+// Fields of an update that differ from the stored document
+function diffFields(previous: DocumentData, updates: Record<string, any>): StockEntryChange['changes'] {
+  const changes: StockEntryChange['changes'] = {};
+  Object.keys(updates).forEach(field => {
+    if (field === 'updatedAt') return;
+    const from = toHistoryValue(previous[field]);
+    const to = toHistoryValue(updates[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  });
+  return changes;
+}
+
+function convertFirestoreToChange(id: string, data: DocumentData): StockEntryChange {
+  return {
+    id,
+    changedAt: validateAndFormatDate(data.changedAt),
+    changedBy: data.changedBy ?? null,
+    changes: data.changes ?? {}
+  };
+}
+
 // Helper function to handle Firestore errors
 function handleFirestoreError(error: unknown, operation: string): never {
   safeConsoleLog(`Firestore ${operation} error:`, error);
@@ -259,22 +532,42 @@ export const stockLedgerService = {
           throw new Error('Invalid confidence level');
         }
 
-        // Validate numeric fields
-        const priceBuy = validateNumericField(entry.priceBuy, 'Buy price');
-        const targetPercent = validateNumericField(entry.targetPercent, 'Target percentage');
+        // Validate numeric fields; the buy date, price and quantity follow
+        // from the lots
+        const position = summarizeBuyLots(validateBuyLots(entry.buyLots));
+        // The final target of the plan is the entry's target
+        const { targets, targetPercent, targetPrice } = summarizeTargets(validateTargets(entry.targets));
         const stopLossPercent = validateNumericField(entry.stopLossPercent, 'Stop loss percentage');
+        const stopLossPrice = entry.stopLossPrice !== undefined
+          ? validateNumericField(entry.stopLossPrice, 'Stop loss price')
+          : undefined;
+        const direction = validateDirection(entry.direction);
+        const levels = { direction, priceBuy: position.priceBuy, targetPercent, stopLossPercent, targetPrice, stopLossPrice };
 
         const validatedEntry = {
           stockName,
           symbol,
-          dateBuy: Timestamp.fromDate(new Date(entry.dateBuy)),
-          priceBuy,
+          direction,
+          buyLots: toStoredLots(position.buyLots),
+          sellLots: [],
+          dateBuy: Timestamp.fromDate(new Date(position.dateBuy)),
+          priceBuy: position.priceBuy,
+          quantity: position.quantity,
+          targets,
           targetPercent,
           stopLossPercent,
+          targetPrice,
+          stopLossPrice,
+          trailingStop: entry.trailingStop ? validateTrailingStop(entry.trailingStop) : undefined,
+          stopMoves: [],
           reason,
           chartLink: entry.chartLink?.trim(),
+          source: entry.source?.trim(),
           confidence,
-          riskReward: Number((targetPercent / stopLossPercent).toFixed(2)),
+          tradeType: validateTradeType(entry.tradeType),
+          broker: validateBrokerSchedule(entry.broker),
+          addedBy: entry.addedBy,
+          riskReward: Number(getRiskReward(levels).toFixed(2)),
           createdAt: Timestamp.now(),
           updatedAt: Timestamp.now(),
           status: 'Active' as const
@@ -286,6 +579,12 @@ export const stockLedgerService = {
         return {
           id: docRef.id,
           ...entry,
+          ...position,
+          targets,
+          targetPercent,
+          targetPrice,
+          sellLots: [],
+          stopMoves: [],
           riskReward: validatedEntry.riskReward,
           status: 'Active',
           createdAt: validatedEntry.createdAt.toDate().toISOString(),
@@ -325,7 +624,48 @@ export const stockLedgerService = {
     }, 'fetch stock entries');
   },
 
-  async updateEntry(id: string, updates: Partial<StockEntry>): Promise<void> {
+  async getEntry(id: string): Promise<StockEntry> {
+    checkFirestoreInitialization();
+    return withRetry(async () => {
+      try {
+        if (!id) {
+          throw new Error('Entry ID is required');
+        }
+
+        const snapshot = await getDoc(doc(db, COLLECTION_NAME, id));
+        if (!snapshot.exists()) {
+          throw new Error('The requested stock entry could not be found. It may have been deleted.');
+        }
+        return convertFirestoreToStockEntry(snapshot.id, snapshot.data());
+      } catch (error) {
+        return handleFirestoreError(error, 'fetch stock entry');
+      }
+    }, 'fetch stock entry');
+  },
+
+  async getHistory(id: string): Promise<StockEntryChange[]> {
+    checkFirestoreInitialization();
+    return withRetry(async () => {
+      try {
+        const q = query(
+          collection(db, COLLECTION_NAME, id, HISTORY_COLLECTION_NAME),
+          orderBy('changedAt', 'desc')
+        );
+        const snapshot = await getDocs(q);
+        return snapshot.docs.map(doc => convertFirestoreToChange(doc.id, doc.data()));
+      } catch (error) {
+        return handleFirestoreError(error, 'fetch entry history');
+      }
+    }, 'fetch entry history');
+  },
+
+  // Every update that changes a field is recorded in the entry's history,
+  // attributed to `changedBy` when known
+  async updateEntry(
+    id: string,
+    updates: Partial<StockEntry>,
+    changedBy: StockEntryChange['changedBy'] = null
+  ): Promise<void> {
     checkFirestoreInitialization();
     return withRetry(async () => {
       try {
@@ -346,6 +686,9 @@ export const stockLedgerService = {
         if ('priceBuy' in updates) {
           updateData.priceBuy = validateNumericField(updates.priceBuy, 'Buy price');
         }
+        if ('quantity' in updates) {
+          updateData.quantity = validateQuantity(updates.quantity);
+        }
         if ('priceSell' in updates) {
           updateData.priceSell = validateNumericField(updates.priceSell, 'Sell price');
         }
@@ -355,9 +698,32 @@ export const stockLedgerService = {
         if ('stopLossPercent' in updates) {
           updateData.stopLossPercent = validateNumericField(updates.stopLossPercent, 'Stop loss percentage');
         }
+        // A cleared price hands the level back to its percentage
+        if ('targetPrice' in updates) {
+          updateData.targetPrice = updates.targetPrice === undefined
+            ? null
+            : validateNumericField(updates.targetPrice, 'Target price');
+        }
+        if ('stopLossPrice' in updates) {
+          updateData.stopLossPrice = updates.stopLossPrice === undefined
+            ? null
+            : validateNumericField(updates.stopLossPrice, 'Stop loss price');
+        }
+        if ('trailingStop' in updates) {
+          updateData.trailingStop = updates.trailingStop ? validateTrailingStop(updates.trailingStop) : null;
+        }
+        if ('stopMoves' in updates) {
+          updateData.stopMoves = toStoredLots(validateStopMoves(updates.stopMoves));
+        }
         if ('reason' in updates) {
           updateData.reason = validateString(updates.reason, 'Reason');
         }
+        if ('chartLink' in updates) {
+          updateData.chartLink = updates.chartLink?.trim() || null;
+        }
+        if ('source' in updates) {
+          updateData.source = updates.source?.trim() ?? '';
+        }
         if ('confidence' in updates) {
           const confidence = validateString(updates.confidence, 'Confidence');
           if (!['Low', 'Medium', 'High'].includes(confidence)) {
@@ -365,6 +731,37 @@ export const stockLedgerService = {
           }
           updateData.confidence = confidence;
         }
+        if ('direction' in updates) {
+          updateData.direction = validateDirection(updates.direction);
+        }
+        if ('tradeType' in updates) {
+          updateData.tradeType = validateTradeType(updates.tradeType);
+        }
+        if ('broker' in updates) {
+          updateData.broker = validateBrokerSchedule(updates.broker);
+        }
+
+        // Sales and their outcome
+        if ('status' in updates) {
+          if (!['Active', 'Closed'].includes(updates.status as string)) {
+            throw new Error('Invalid status');
+          }
+          updateData.status = updates.status;
+        }
+        if ('sellLots' in updates) {
+          updateData.sellLots = toStoredLots(validateSellLots(updates.sellLots));
+        }
+        if ('profitLoss' in updates) {
+          updateData.profitLoss = updates.profitLoss === undefined
+            ? null
+            : validateAndFormatNumber(updates.profitLoss, 'Profit/Loss');
+        }
+        if ('hitTarget' in updates) {
+          updateData.hitTarget = Boolean(updates.hitTarget);
+        }
+        if ('hitStopLoss' in updates) {
+          updateData.hitStopLoss = Boolean(updates.hitStopLoss);
+        }
 
         // Handle dates
         if ('dateBuy' in updates) {
@@ -374,10 +771,54 @@ export const stockLedgerService = {
           updateData.dateSell = updates.dateSell ? Timestamp.fromDate(new Date(updates.dateSell)) : null;
         }
 
+        // Lots take precedence over the buy date, price and quantity they summarize
+        if ('buyLots' in updates) {
+          const position = summarizeBuyLots(validateBuyLots(updates.buyLots));
+          updateData.buyLots = toStoredLots(position.buyLots);
+          updateData.dateBuy = Timestamp.fromDate(new Date(position.dateBuy));
+          updateData.priceBuy = position.priceBuy;
+          updateData.quantity = position.quantity;
+        }
+        // Likewise the plan over the final target it ends at
+        if ('targets' in updates) {
+          const plan = summarizeTargets(validateTargets(updates.targets));
+          updateData.targets = plan.targets;
+          updateData.targetPercent = plan.targetPercent;
+          updateData.targetPrice = plan.targetPrice ?? null;
+        }
+
         updateData.updatedAt = Timestamp.now();
 
         const cleanedUpdates = removeUndefinedValues(updateData);
+        const previous = await getDoc(docRef);
+        if (!previous.exists()) {
+          throw new Error('The requested stock entry could not be found. It may have been deleted.');
+        }
+
+        // Risk/reward follows the distances of the levels from the buy price,
+        // so it moves with any of them
+        if (RISK_REWARD_FIELDS.some(field => field in cleanedUpdates)) {
+          const next = { ...previous.data(), ...cleanedUpdates };
+          cleanedUpdates.riskReward = Number(getRiskReward({
+            direction: next.direction,
+            priceBuy: next.priceBuy,
+            targetPercent: next.targetPercent,
+            stopLossPercent: next.stopLossPercent,
+            targetPrice: next.targetPrice ?? undefined,
+            stopLossPrice: next.stopLossPrice ?? undefined
+          }).toFixed(2));
+        }
+
         await updateDoc(docRef, cleanedUpdates);
+
+        const changes = diffFields(previous.data(), cleanedUpdates);
+        if (Object.keys(changes).length > 0) {
+          await addDoc(collection(db, COLLECTION_NAME, id, HISTORY_COLLECTION_NAME), {
+            changedAt: cleanedUpdates.updatedAt,
+            changedBy,
+            changes
+          });
+        }
       } catch (error) {
         handleFirestoreError(error, 'update stock entry');
       }
@@ -392,6 +833,10 @@ export const stockLedgerService = {
           throw new Error('Entry ID is required for deletion');
         }
 
+        // Subcollections outlive their parent document, so clear the history first
+        const history = await getDocs(collection(db, COLLECTION_NAME, id, HISTORY_COLLECTION_NAME));
+        await Promise.all(history.docs.map(change => deleteDoc(change.ref)));
+
         const docRef = doc(db, COLLECTION_NAME, id);
         await deleteDoc(docRef);
       } catch (error) {
@@ -0,0 +1,459 @@
+import { startOfDay } from "date-fns";
+import { getEntryCharges, getSoldCharges } from "@/lib/charges";
+import { getCurrencySymbol } from "@/lib/format";
+import { atr } from "@/lib/indicators";
+import type {
+  BuyLot,
+  NewSellLot,
+  NewStockEntry,
+  SellLot,
+  StagedTarget,
+  StockEntry,
+  StockLedgerSummary,
+  StopMove,
+  TrailingStop
+} from "@/types/ledger";
+import type { Candle, StockData } from "@/types/stocks";
+
+// Position bought in `lots`, in date order and summarized as its first buy
+// date, total shares and weighted average price. Lot fees are charges, so
+// they reach net P&L rather than the price levels.
+export function summarizeBuyLots(lots: BuyLot[]): Pick<StockEntry, 'buyLots' | 'dateBuy' | 'priceBuy' | 'quantity'> {
+  const buyLots = [...lots].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const quantity = buyLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  const cost = buyLots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0);
+  return {
+    buyLots,
+    dateBuy: buyLots[0]?.date ?? '',
+    priceBuy: quantity > 0 ? cost / quantity : 0,
+    quantity
+  };
+}
+
+// Average price of the lots bought by `date`, which a sale then is booked
+// at. A sale dated before any purchase takes the whole position's.
+function getCostBasisAt(entry: Pick<StockEntry, 'buyLots' | 'priceBuy'>, date: string): number {
+  const time = new Date(date).getTime();
+  const { quantity, priceBuy } = summarizeBuyLots(
+    entry.buyLots.filter(lot => new Date(lot.date).getTime() <= time)
+  );
+  return quantity > 0 ? priceBuy : entry.priceBuy;
+}
+
+// Sales booked against the lots bought by each one's date
+function bookSellLots(entry: Pick<StockEntry, 'buyLots' | 'priceBuy'>, lots: NewSellLot[]): SellLot[] {
+  return lots.map(lot => ({ ...lot, costBasis: getCostBasisAt(entry, lot.date) }));
+}
+
+// Updates adding a purchase to an entry's position. The recorded outcome of
+// its sales is recomputed, since it depends on the lots, quantity and levels.
+export function addBuyLot(entry: StockEntry, lot: BuyLot): Partial<StockEntry> {
+  const position = summarizeBuyLots([...entry.buyLots, lot]);
+  if (entry.sellLots.length === 0) {
+    return position;
+  }
+  return { ...position, ...summarizeSellLots({ ...entry, ...position }, bookSellLots(position, entry.sellLots)) };
+}
+
+// 1 for entries that gain as the price rises, -1 for those gaining as it falls
+function getDirectionSign(entry: Pick<StockEntry, 'direction'>): number {
+  return entry.direction === 'Short' ? -1 : 1;
+}
+
+// Words for the orders opening and closing an entry's position
+export function getTradeActions(entry: Pick<StockEntry, 'direction'>): { open: 'Buy' | 'Short'; close: 'Sell' | 'Cover' } {
+  return entry.direction === 'Short' ? { open: 'Short', close: 'Cover' } : { open: 'Buy', close: 'Sell' };
+}
+
+type TargetLevel = Pick<StockEntry, 'direction' | 'priceBuy' | 'targetPercent' | 'targetPrice'>;
+type StopLossLevel = Pick<StockEntry, 'direction' | 'priceBuy' | 'stopLossPercent' | 'stopLossPrice'>;
+
+// Price at which an entry gains `percent` of its buy price, or loses it when
+// negative
+export function getPriceAtGain(entry: Pick<StockEntry, 'direction' | 'priceBuy'>, percent: number): number {
+  return entry.priceBuy * (1 + getDirectionSign(entry) * percent / 100);
+}
+
+// Gain of an entry at `price` as a percentage of its buy price
+export function getGainPercent(entry: Pick<StockEntry, 'direction' | 'priceBuy'>, price: number): number {
+  return getDirectionSign(entry) * (price - entry.priceBuy) / entry.priceBuy * 100;
+}
+
+// Price levels of an entry: the stored price, or the one its percentage
+// puts off the buy price. A short's target lies below its entry and its
+// stop-loss above.
+export function getTargetPrice(entry: TargetLevel): number {
+  return entry.targetPrice ?? getPriceAtGain(entry, entry.targetPercent);
+}
+
+export function getStopLossPrice(entry: StopLossLevel): number {
+  return entry.stopLossPrice ?? getPriceAtGain(entry, -entry.stopLossPercent);
+}
+
+// Distances of the levels from the current buy price, as percentages
+export function getTargetPercent(entry: TargetLevel): number {
+  return getGainPercent(entry, getTargetPrice(entry));
+}
+
+export function getStopLossPercent(entry: StopLossLevel): number {
+  return -getGainPercent(entry, getStopLossPrice(entry));
+}
+
+// Reward to the target per unit of risk to the stop-loss
+export function getRiskReward(entry: TargetLevel & StopLossLevel): number {
+  return getTargetPercent(entry) / getStopLossPercent(entry);
+}
+
+// A scale-out plan summarized as its final target
+export function summarizeTargets(targets: StagedTarget[]): Pick<StockEntry, 'targets' | 'targetPercent' | 'targetPrice'> {
+  if (targets.length === 0) {
+    throw new Error('At least one target is required');
+  }
+  const final = targets[targets.length - 1];
+  return { targets, targetPercent: final.percent, targetPrice: final.price };
+}
+
+// Price and distance of one stage of an entry's plan, as for the final target
+export function getStagedTargetPrice(entry: Pick<StockEntry, 'direction' | 'priceBuy'>, target: StagedTarget): number {
+  return target.price ?? getPriceAtGain(entry, target.percent);
+}
+
+export function reachesStagedTarget(
+  entry: Pick<StockEntry, 'direction' | 'priceBuy'>,
+  target: StagedTarget,
+  price: number
+): boolean {
+  return getDirectionSign(entry) * (price - getStagedTargetPrice(entry, target)) >= 0;
+}
+
+// Highest and lowest prices in daily candles and today's quote, or null
+// with neither
+export function getPriceRange(candles: Candle[], quote?: StockData): { high: number; low: number } | null {
+  const highs = candles.map(candle => candle.high);
+  const lows = candles.map(candle => candle.low);
+  if (quote) {
+    highs.push(quote.high ?? quote.price);
+    lows.push(quote.low ?? quote.price);
+  }
+  if (highs.length === 0) return null;
+  return { high: Math.max(...highs), low: Math.min(...lows) };
+}
+
+// Most favourable price of a range for an entry: the high for a long, the
+// low for a short
+export function getBestPrice(entry: Pick<StockEntry, 'direction'>, range: { high: number; low: number }): number {
+  return entry.direction === 'Short' ? range.low : range.high;
+}
+
+// Whether each stage of an entry's plan has been reached, by the best
+// price traded since the purchase when known or by one of the sales
+export function getReachedTargets(
+  entry: Pick<StockEntry, 'direction' | 'priceBuy' | 'targets' | 'sellLots'>,
+  bestPrice?: number
+): boolean[] {
+  return entry.targets.map(target =>
+    (bestPrice !== undefined && reachesStagedTarget(entry, target, bestPrice)) ||
+    entry.sellLots.some(lot => reachesStagedTarget(entry, target, lot.price))
+  );
+}
+
+// Shares the plan books at each stage of an entry, in whole shares. The
+// final stage takes whatever rounding leaves.
+export function getPlannedQuantities(entry: Pick<StockEntry, 'quantity' | 'targets'>): number[] {
+  let allocated = 0;
+  let booked = 0;
+  return entry.targets.map((target, stage) => {
+    allocated += target.allocation;
+    const upToStage = stage === entry.targets.length - 1
+      ? entry.quantity
+      : Math.round(entry.quantity * allocated / 100);
+    const quantity = upToStage - booked;
+    booked = upToStage;
+    return quantity;
+  });
+}
+
+// Next stage of an entry's plan left to book, with the shares still to
+// sell (or cover) for it. Shares already sold count against the earliest
+// stages.
+export function getNextPlannedExit(
+  entry: Pick<StockEntry, 'quantity' | 'targets' | 'sellLots'>
+): { stage: number; quantity: number } | null {
+  let unbooked = entry.quantity - getOpenQuantity(entry);
+  const planned = getPlannedQuantities(entry);
+  for (let stage = 0; stage < planned.length; stage++) {
+    if (planned[stage] > unbooked) {
+      return { stage, quantity: planned[stage] - unbooked };
+    }
+    unbooked -= planned[stage];
+  }
+  return null;
+}
+
+// Level as it was entered followed by its equivalent, e.g. "10% (₹110.00)"
+// or "₹110.00 (10.00%)", the percentage being its distance from the buy price
+function formatLevel(
+  entry: Pick<StockEntry, 'symbol' | 'direction' | 'priceBuy'>,
+  level: { percent: number; price?: number },
+  price: number
+): string {
+  const formattedPrice = `${getCurrencySymbol(entry.symbol)}${price.toFixed(2)}`;
+  return level.price !== undefined
+    ? `${formattedPrice} (${Math.abs(getGainPercent(entry, price)).toFixed(2)}%)`
+    : `${level.percent}% (${formattedPrice})`;
+}
+
+export function formatStagedTarget(
+  entry: Pick<StockEntry, 'symbol' | 'direction' | 'priceBuy'>,
+  target: StagedTarget
+): string {
+  return formatLevel(entry, target, getStagedTargetPrice(entry, target));
+}
+
+export function formatTargetLevel(entry: TargetLevel & Pick<StockEntry, 'symbol'>): string {
+  return formatLevel(entry, { percent: entry.targetPercent, price: entry.targetPrice }, getTargetPrice(entry));
+}
+
+export function formatStopLossLevel(entry: StopLossLevel & Pick<StockEntry, 'symbol'>): string {
+  return formatLevel(entry, { percent: entry.stopLossPercent, price: entry.stopLossPrice }, getStopLossPrice(entry));
+}
+
+// Whether a trade at `price` reaches an entry's target or stop-loss
+export function reachesTarget(entry: TargetLevel, price: number): boolean {
+  return getDirectionSign(entry) * (price - getTargetPrice(entry)) >= 0;
+}
+
+// A trailing stop is checked against the level it had on `date`, or its
+// latest without one
+export function reachesStopLoss(entry: StopLossLevel & Pick<StockEntry, 'stopMoves'>, price: number, date?: string): boolean {
+  return getDirectionSign(entry) * (price - getStopLossAt(entry, date)) <= 0;
+}
+
+// Stop-loss in effect on `date` (or now): the last move of a trailing stop
+// by then, or the initial stop before any
+export function getStopLossAt(entry: StopLossLevel & Pick<StockEntry, 'stopMoves'>, date?: string): number {
+  const moves = date
+    ? entry.stopMoves.filter(move => new Date(move.date).getTime() <= new Date(date).getTime())
+    : entry.stopMoves;
+  return moves.length > 0 ? moves[moves.length - 1].price : getStopLossPrice(entry);
+}
+
+export function describeTrailingStop(rule: TrailingStop): string {
+  switch (rule.type) {
+    case 'percent':
+      return `${rule.percent}% trail`;
+    case 'atr':
+      return `${rule.multiple}× ATR(${rule.period}) trail`;
+    case 'breakeven':
+      return 'To cost after T1';
+  }
+}
+
+// Calendar days of candles before the purchase a trailing stop needs, for
+// the ATR to settle by the buy day
+export function getTrailingStopWarmupDays(entry: Pick<StockEntry, 'trailingStop'>): number {
+  return entry.trailingStop?.type === 'atr' ? entry.trailingStop.period * 2 : 0;
+}
+
+// Path of an entry's trailing stop over daily `candles`: its initial stop,
+// then a move on each day whose best price so far (high for a long, low for
+// a short) tightens it. The buy day counts whole, and candles before it only
+// warm up the ATR. The stop never loosens.
+export function getTrailingStopPath(
+  entry: StopLossLevel & Pick<StockEntry, 'dateBuy' | 'trailingStop' | 'targets'>,
+  candles: Candle[]
+): StopMove[] {
+  const path: StopMove[] = [{ date: entry.dateBuy, price: getStopLossPrice(entry) }];
+  const rule = entry.trailingStop;
+  if (!rule) return path;
+
+  const sign = getDirectionSign(entry);
+  const buyDay = startOfDay(new Date(entry.dateBuy)).getTime() / 1000;
+  const ranges = rule.type === 'atr' ? atr(candles, rule.period) : [];
+  let best: number | undefined;
+
+  candles.forEach((candle, index) => {
+    if (candle.time < buyDay) return;
+    const price = sign > 0 ? candle.high : candle.low;
+    best = best === undefined || sign * (price - best) > 0 ? price : best;
+
+    let level: number | null = null;
+    if (rule.type === 'percent') {
+      level = getPriceAtGain({ ...entry, priceBuy: best }, -rule.percent);
+    } else if (rule.type === 'atr') {
+      const range = ranges[index];
+      level = range !== null ? best - sign * rule.multiple * range : null;
+    } else if (entry.targets.length > 0 && reachesStagedTarget(entry, entry.targets[0], best)) {
+      level = entry.priceBuy;
+    }
+
+    if (level !== null && sign * (level - path[path.length - 1].price) > 0) {
+      // A move on the buy day comes after the purchase
+      const date = new Date(Math.max(candle.time * 1000, new Date(entry.dateBuy).getTime()));
+      path.push({ date: date.toISOString(), price: level });
+    }
+  });
+  return path;
+}
+
+// Moves of an entry's stop already recorded followed by those of `path`
+// past the latest of them
+export function mergeStopMoves(entry: Pick<StockEntry, 'direction' | 'stopMoves'>, path: StopMove[]): StopMove[] {
+  const latest = entry.stopMoves[entry.stopMoves.length - 1];
+  if (!latest) return path;
+  const sign = getDirectionSign(entry);
+  return [
+    ...entry.stopMoves,
+    ...path.filter(move =>
+      new Date(move.date).getTime() > new Date(latest.date).getTime() && sign * (move.price - latest.price) > 0
+    )
+  ];
+}
+
+// Capital put into an entry
+export function getInvestedAmount(entry: Pick<StockEntry, 'priceBuy' | 'quantity'>): number {
+  return entry.priceBuy * entry.quantity;
+}
+
+// Shares bought and not yet sold
+export function getOpenQuantity(entry: Pick<StockEntry, 'quantity' | 'sellLots'>): number {
+  return entry.quantity - entry.sellLots.reduce((sum, lot) => sum + lot.quantity, 0);
+}
+
+// Cost of the shares still held: what was paid less what the sales booked
+export function getOpenCost(entry: Pick<StockEntry, 'priceBuy' | 'quantity' | 'sellLots'>): number {
+  return getInvestedAmount(entry) - getSoldCost(entry);
+}
+
+// Worth of the shares still held at `price`
+export function getPositionValue(entry: Pick<StockEntry, 'quantity' | 'sellLots'>, price: number): number {
+  return price * getOpenQuantity(entry);
+}
+
+// Profit or loss of the shares still held if sold (or covered) at `price`
+export function getUnrealizedProfitLoss(
+  entry: Pick<StockEntry, 'direction' | 'priceBuy' | 'quantity' | 'sellLots'>,
+  price: number
+): number {
+  return getDirectionSign(entry) * (getPositionValue(entry, price) - getOpenCost(entry));
+}
+
+// Profit or loss booked by the sales (or covers) so far, each against the
+// cost basis it was sold at
+export function getRealizedProfitLoss(entry: Pick<StockEntry, 'direction' | 'sellLots'>): number {
+  const sign = getDirectionSign(entry);
+  return entry.sellLots.reduce((sum, lot) => sum + sign * (lot.price - lot.costBasis) * lot.quantity, 0);
+}
+
+// Cost of the shares sold so far
+export function getSoldCost(entry: Pick<StockEntry, 'sellLots'>): number {
+  return entry.sellLots.reduce((sum, lot) => sum + lot.costBasis * lot.quantity, 0);
+}
+
+// Realized P&L less the charges of the shares sold
+export function getNetRealizedProfitLoss(entry: StockEntry): number {
+  return getRealizedProfitLoss(entry) - getSoldCharges(entry);
+}
+
+// Sale fields of an entry sold in `lots`: the latest sale date, average exit
+// price and realized P&L, and whether any sale reached the target or
+// stop-loss. The entry closes once no shares are left.
+export function summarizeSellLots(
+  entry: TargetLevel & StopLossLevel & Pick<StockEntry, 'quantity' | 'stopMoves'>,
+  lots: SellLot[]
+): Pick<StockEntry, 'sellLots' | 'dateSell' | 'priceSell' | 'status' | 'profitLoss' | 'hitTarget' | 'hitStopLoss'> {
+  const sellLots = [...lots].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  const sold = sellLots.reduce((sum, lot) => sum + lot.quantity, 0);
+  if (sold > entry.quantity) {
+    throw new Error(`Cannot sell ${sold} shares of a position holding ${entry.quantity}`);
+  }
+  if (sellLots.length === 0) {
+    return { sellLots, status: 'Active', hitTarget: false, hitStopLoss: false };
+  }
+
+  return {
+    sellLots,
+    dateSell: sellLots[sellLots.length - 1].date,
+    priceSell: sellLots.reduce((sum, lot) => sum + lot.price * lot.quantity, 0) / sold,
+    status: sold === entry.quantity ? 'Closed' : 'Active',
+    profitLoss: getRealizedProfitLoss({ ...entry, sellLots }),
+    hitTarget: sellLots.some(lot => reachesTarget(entry, lot.price)),
+    hitStopLoss: sellLots.some(lot => reachesStopLoss(entry, lot.price, lot.date))
+  };
+}
+
+// Updates recording a sale out of an entry's position, at the average price
+// of the lots bought by its date. `entry.stopMoves` should include the moves
+// its trailing stop made since they were last saved (see useTrailingStop);
+// the sale records them, judging by them whether it hit the stop.
+export function addSellLot(
+  entry: StockEntry,
+  lot: NewSellLot
+): ReturnType<typeof summarizeSellLots> & Pick<StockEntry, 'stopMoves'> {
+  const sellLots = bookSellLots(entry, [...entry.sellLots, lot]);
+  return { ...summarizeSellLots(entry, sellLots), stopMoves: entry.stopMoves };
+}
+
+// Updates saving an edit of `entry`. A new trailing rule or initial stop
+// starts the stop's path over, the moves so far staying in the edit history.
+// Its sales are booked again against the edited lots, and their recorded
+// outcome recomputed, since it depends on the lots, quantity and levels.
+export function getEditUpdates(entry: StockEntry, values: NewStockEntry): Partial<StockEntry> {
+  const updates: Partial<StockEntry> = { ...values };
+  if (
+    JSON.stringify(values.trailingStop) !== JSON.stringify(entry.trailingStop) ||
+    getStopLossPrice({ ...entry, ...values }) !== getStopLossPrice(entry)
+  ) {
+    updates.stopMoves = [];
+  }
+  if (entry.sellLots.length === 0) {
+    return updates;
+  }
+  const next = { ...entry, ...updates };
+  return { ...updates, ...summarizeSellLots(next, bookSellLots(next, entry.sellLots)) };
+}
+
+// Portfolio totals of entries priced in one currency. Shares still held are
+// valued at their live quote, or at cost until one arrives.
+export function summarizeLedger(entries: StockEntry[], quotes: Record<string, StockData>): StockLedgerSummary {
+  const active = entries.filter(entry => entry.status === 'Active');
+  const closed = entries.filter(entry => entry.status === 'Closed');
+
+  const totalInvestment = active.reduce((sum, entry) => sum + getOpenCost(entry), 0);
+  // Cost plus unrealized P&L, which for a long is the market value
+  const currentValue = active.reduce((sum, entry) => {
+    const price = quotes[entry.symbol]?.price;
+    return sum + getOpenCost(entry) + (price !== undefined ? getUnrealizedProfitLoss(entry, price) : 0);
+  }, 0);
+  // Partial exits of open positions count as realized too
+  const realized = entries.reduce((sum, entry) => sum + getRealizedProfitLoss(entry), 0);
+  const overallProfitLoss = currentValue - totalInvestment + realized;
+  const totalCharges = entries.reduce((sum, entry) => sum + getEntryCharges(entry).total, 0);
+  const capital = entries.reduce((sum, entry) => sum + getInvestedAmount(entry), 0);
+  // A trade whose charges ate its gross profit is no win
+  const wins = closed.filter(entry => getNetRealizedProfitLoss(entry) > 0).length;
+
+  return {
+    totalPositions: entries.length,
+    activePositions: active.length,
+    closedPositions: closed.length,
+    totalInvestment,
+    currentValue,
+    overallProfitLoss,
+    overallProfitLossPercent: capital > 0 ? (overallProfitLoss / capital) * 100 : 0,
+    totalCharges,
+    netProfitLoss: overallProfitLoss - totalCharges,
+    winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0
+  };
+}
+
+// Entries grouped by the currency they are priced in, as amounts in
+// different currencies cannot be added up
+export function groupByCurrency(entries: StockEntry[]): Map<string, StockEntry[]> {
+  const groups = new Map<string, StockEntry[]>();
+  entries.forEach(entry => {
+    const currency = getCurrencySymbol(entry.symbol);
+    groups.set(currency, [...(groups.get(currency) ?? []), entry]);
+  });
+  return groups;
+}
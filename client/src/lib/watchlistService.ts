@@ -0,0 +1,48 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  Timestamp,
+  FirestoreError,
+} from 'firebase/firestore';
+import { db } from './firebase';
+
+// One document per user, keyed by uid, holding the pinned symbols in
+// display order
+const COLLECTION_NAME = 'watchlists';
+
+function handleFirestoreError(error: unknown, operation: string): never {
+  console.error(`Firestore ${operation} error:`, error);
+
+  if (error instanceof FirestoreError && error.code === 'permission-denied') {
+    throw new Error('You do not have permission to manage this watchlist.');
+  }
+  throw new Error(`Failed to ${operation}: ${error instanceof Error ? error.message : 'An unexpected error occurred'}`);
+}
+
+// Symbols pinned to the live tracker, private to each user
+export const watchlistService = {
+  async getSymbols(uid: string): Promise<string[]> {
+    try {
+      const snapshot = await getDoc(doc(db, COLLECTION_NAME, uid));
+      const symbols = snapshot.exists() ? snapshot.data().symbols : [];
+      return Array.isArray(symbols)
+        ? symbols.filter((symbol): symbol is string => typeof symbol === 'string')
+        : [];
+    } catch (error) {
+      return handleFirestoreError(error, 'load watchlist');
+    }
+  },
+
+  async saveSymbols(uid: string, symbols: string[]): Promise<void> {
+    try {
+      await setDoc(doc(db, COLLECTION_NAME, uid), {
+        uid,
+        symbols,
+        updatedAt: Timestamp.now()
+      });
+    } catch (error) {
+      handleFirestoreError(error, 'save watchlist');
+    }
+  }
+};
@@ -5,6 +5,7 @@ import "./index.css";
 import { SWRConfig } from "swr";
 import { fetcher } from "./lib/fetcher";
 import StockDashboard from "./pages/StockDashboard";
+import EntryDetail from "./pages/EntryDetail";
 import { Toaster } from "@/components/ui/toaster";
 import { AuthProvider } from "./contexts/AuthContext";
 
@@ -27,8 +28,8 @@ const swrConfig = {
   dedupingInterval: 5000,
   // Keep previous data while revalidating for smoother transitions
   keepPreviousData: true,
-  // Reduced revalidation interval
-  refreshInterval: 30000, // 30 seconds
+  // No polling by default: live data polls per hook, and only while its
+  // market is open (see useMarketStatus)
   // Focus revalidation with delay
   revalidateOnFocus: false,
   // Network revalidation with delay
@@ -52,6 +53,9 @@ createRoot(document.getElementById("root")!).render(
       <SWRConfig value={swrConfig}>
         <Switch>
           <Route path="/" component={StockDashboard} />
+          <Route path="/stock/:symbol" component={StockDashboard} />
+          <Route path="/ledger" component={StockDashboard} />
+          <Route path="/entry/:id" component={EntryDetail} />
           <Route>404 Page Not Found</Route>
         </Switch>
         <Toaster />
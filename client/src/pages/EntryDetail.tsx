@@ -0,0 +1,750 @@
+import { useMemo, useState } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import useSWR, { mutate as mutateCache } from "swr";
+import { format } from "date-fns";
+import {
+  AlertCircle,
+  ArrowLeft,
+  DollarSign,
+  Edit2,
+  ExternalLink,
+  History,
+  Link2,
+  Loader2,
+  PlusCircle,
+  Trash2,
+  User
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import TradeChart from "@/components/TradeChart";
+import StockEntryDialog from "@/components/StockEntryDialog";
+import SellDetailsDialog from "@/components/SellDetailsDialog";
+import AddToPositionDialog from "@/components/AddToPositionDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useLiveQuotes } from "@/hooks/use-live-quotes";
+import { useDailyCandles } from "@/hooks/use-daily-candles";
+import { recordStopMoves, useTrailingStop } from "@/hooks/use-trailing-stop";
+import { useAuth } from "@/contexts/AuthContext";
+import { stockLedgerService } from "@/lib/stockLedgerService";
+import { getEntryCharges } from "@/lib/charges";
+import { formatAmount, getCurrencySymbol } from "@/lib/format";
+import {
+  addBuyLot,
+  addSellLot,
+  describeTrailingStop,
+  formatStagedTarget,
+  formatStopLossLevel,
+  formatTargetLevel,
+  getBestPrice,
+  getEditUpdates,
+  getInvestedAmount,
+  getNetRealizedProfitLoss,
+  getOpenCost,
+  getOpenQuantity,
+  getPlannedQuantities,
+  getPositionValue,
+  getPriceRange,
+  getReachedTargets,
+  getRealizedProfitLoss,
+  getRiskReward,
+  getSoldCost,
+  getStopLossAt,
+  getTradeActions,
+  getTrailingStopWarmupDays,
+  getUnrealizedProfitLoss
+} from "@/lib/trade";
+import { cn } from "@/lib/utils";
+import type {
+  BrokerSchedule,
+  BuyLot,
+  NewSellLot,
+  NewStockEntry,
+  SellLot,
+  StagedTarget,
+  StockEntry,
+  StockEntryChange,
+  StopMove,
+  TradeCharges,
+  TrailingStop
+} from "@/types/ledger";
+
+// Readable names of the fields recorded in an entry's edit history
+const FIELD_LABELS: Record<string, string> = {
+  stockName: 'Stock',
+  symbol: 'Symbol',
+  direction: 'Direction',
+  buyLots: 'Buy lots',
+  dateBuy: 'Buy date',
+  priceBuy: 'Average price',
+  quantity: 'Quantity',
+  targets: 'Targets',
+  targetPercent: 'Target %',
+  stopLossPercent: 'Stop loss %',
+  targetPrice: 'Target price',
+  stopLossPrice: 'Stop loss price',
+  trailingStop: 'Trailing stop',
+  stopMoves: 'Stop moves',
+  riskReward: 'R/R',
+  reason: 'Reason',
+  chartLink: 'Chart link',
+  source: 'Source',
+  confidence: 'Confidence',
+  tradeType: 'Trade type',
+  broker: 'Broker',
+  sellLots: 'Sell lots',
+  dateSell: 'Sell date',
+  priceSell: 'Average exit',
+  profitLoss: 'Profit/Loss',
+  hitTarget: 'Target hit',
+  hitStopLoss: 'SL hit',
+  status: 'Status'
+};
+
+function formatChangeValue(field: string, value: StockEntryChange['changes'][string]['from']): string {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if ((field === 'dateBuy' || field === 'dateSell') && typeof value === 'string') {
+    return new Date(value).toLocaleDateString();
+  }
+  if (field === 'broker' && typeof value === 'string') {
+    return (JSON.parse(value) as BrokerSchedule).name;
+  }
+  if (field === 'trailingStop' && typeof value === 'string') {
+    return describeTrailingStop(JSON.parse(value) as TrailingStop);
+  }
+  if (field === 'stopMoves' && typeof value === 'string') {
+    const moves: StopMove[] = JSON.parse(value);
+    if (moves.length === 0) return '—';
+    return moves
+      .map(move => `${move.price.toFixed(2)} on ${new Date(move.date).toLocaleDateString()}`)
+      .join(', ');
+  }
+  if (field === 'targets' && typeof value === 'string') {
+    return (JSON.parse(value) as StagedTarget[])
+      .map(target => `${target.price !== undefined ? target.price.toFixed(2) : `${target.percent}%`} for ${target.allocation}%`)
+      .join(', ');
+  }
+  if ((field === 'buyLots' || field === 'sellLots') && typeof value === 'string') {
+    const lots: Array<BuyLot | SellLot> = JSON.parse(value);
+    if (lots.length === 0) return '—';
+    return lots
+      .map(lot => `${lot.quantity} × ${lot.price.toFixed(2)} on ${new Date(lot.date).toLocaleDateString()}`)
+      .join(', ');
+  }
+  return String(value);
+}
+
+function Detail({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="font-medium">{children}</div>
+    </div>
+  );
+}
+
+// Line items of a charges breakdown, in contract-note order
+const CHARGE_LABELS: Array<[Exclude<keyof TradeCharges, 'total'>, string]> = [
+  ['brokerage', 'Brokerage'],
+  ['stt', 'STT'],
+  ['exchange', 'Exchange transaction charges'],
+  ['sebi', 'SEBI fees'],
+  ['stampDuty', 'Stamp duty'],
+  ['gst', 'GST'],
+  ['dp', 'DP charges'],
+  ['other', 'Other fees']
+];
+
+function ChargesBreakdown({ symbol, charges }: { symbol: string; charges: TradeCharges }) {
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {CHARGE_LABELS.filter(([key]) => charges[key] > 0).map(([key, label]) => (
+          <tr key={key} className="border-b">
+            <td className="py-1">{label}</td>
+            <td className="py-1 text-right">{formatAmount(symbol, charges[key])}</td>
+          </tr>
+        ))}
+        <tr className="font-medium">
+          <td className="py-1">Total</td>
+          <td className="py-1 text-right">{formatAmount(symbol, charges.total)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+function ProfitLossCard({ label, symbol, amount, percent, note }: {
+  label: string;
+  symbol: string;
+  amount?: number;
+  percent?: number;
+  note?: string;
+}) {
+  return (
+    <Card className="p-4 space-y-1">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      {amount !== undefined && percent !== undefined ? (
+        <div className={cn("text-2xl font-bold", amount >= 0 ? "text-green-600" : "text-red-600")}>
+          {amount >= 0 ? '+' : '-'}{formatAmount(symbol, Math.abs(amount))}
+          <span className="ml-2 text-base">({percent.toFixed(2)}%)</span>
+        </div>
+      ) : (
+        <div className="text-2xl font-bold text-muted-foreground">-</div>
+      )}
+      {note && <div className="text-sm text-muted-foreground">{note}</div>}
+    </Card>
+  );
+}
+
+function HistoryList({ history }: { history: StockEntryChange[] }) {
+  if (history.length === 0) {
+    return <p className="text-sm text-muted-foreground">No edits since this entry was added.</p>;
+  }
+
+  return (
+    <ol className="space-y-4">
+      {history.map(change => (
+        <li key={change.id} className="border-l-2 pl-4">
+          <div className="text-sm text-muted-foreground">
+            {format(new Date(change.changedAt), 'dd MMM yyyy, HH:mm')}
+            {' · '}
+            {change.changedBy?.displayName || change.changedBy?.email || 'Unknown user'}
+          </div>
+          <ul className="mt-1 space-y-1 text-sm">
+            {Object.entries(change.changes).map(([field, { from, to }]) => (
+              <li key={field}>
+                <span className="font-medium">{FIELD_LABELS[field] ?? field}:</span>{' '}
+                <span className="text-muted-foreground line-through">{formatChangeValue(field, from)}</span>
+                {' → '}
+                <span>{formatChangeValue(field, to)}</span>
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Full view of a single ledger entry, addressable at /entry/:id so a trade
+// can be shared by link
+export default function EntryDetail() {
+  const { id } = useParams<{ id: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const [showEdit, setShowEdit] = useState(false);
+  const [showSell, setShowSell] = useState(false);
+  const [showAddLot, setShowAddLot] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const changedBy = user && { uid: user.uid, email: user.email ?? '', displayName: user.displayName };
+
+  // Opening the entry records the moves its trailing stop made since
+  const { data: entry, error, isLoading, mutate } = useSWR<StockEntry>(
+    ['stockEntry', id, changedBy?.uid],
+    async () => {
+      const loaded = await stockLedgerService.getEntry(id);
+      const stopMoves = (await recordStopMoves([loaded], changedBy)).get(id);
+      if (!stopMoves) return loaded;
+      await mutateCache(['stockEntryHistory', id]);
+      return { ...loaded, stopMoves };
+    },
+    { refreshInterval: 0, revalidateOnFocus: false }
+  );
+  const { data: history, mutate: mutateHistory } = useSWR<StockEntryChange[]>(
+    ['stockEntryHistory', id],
+    () => stockLedgerService.getHistory(id),
+    { refreshInterval: 0, revalidateOnFocus: false }
+  );
+
+  const symbols = useMemo(
+    () => (entry?.status === 'Active' ? [entry.symbol] : []),
+    [entry?.status, entry?.symbol]
+  );
+  const { quotes } = useLiveQuotes(symbols);
+  const quote = entry ? quotes[entry.symbol] : undefined;
+  // Highs (or a short's lows) since the purchase, for the targets reached
+  // and the trailing stop
+  const { candles, history: candleHistory } = useDailyCandles(
+    entry?.symbol ?? '',
+    entry?.status === 'Active' ? entry.dateBuy : undefined,
+    entry ? getTrailingStopWarmupDays(entry) : 0
+  );
+  const stopMoves = useTrailingStop(entry, candleHistory);
+
+  const reportError = (err: unknown, fallback: string) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: err instanceof Error ? err.message : fallback
+    });
+  };
+
+  const refresh = async () => {
+    await Promise.all([mutate(), mutateHistory()]);
+  };
+
+  const handleEdit = async (values: NewStockEntry) => {
+    if (!entry) return;
+    try {
+      setIsSaving(true);
+      await stockLedgerService.updateEntry(id, getEditUpdates(entry, values), changedBy);
+      await refresh();
+      toast({ title: "Entry Updated", description: "Stock entry has been updated" });
+    } catch (err) {
+      reportError(err, 'Failed to update stock entry');
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSell = async (lot: NewSellLot) => {
+    if (!entry) return;
+    try {
+      setIsSaving(true);
+      const sale = addSellLot({ ...entry, stopMoves }, lot);
+      await stockLedgerService.updateEntry(id, sale, changedBy);
+      await refresh();
+      toast({
+        title: "Success",
+        description: sale.status === 'Closed'
+          ? `Closed ${entry.stockName}`
+          : `${getTradeActions(entry).close === 'Cover' ? 'Covered' : 'Sold'} ${lot.quantity} shares of ${entry.stockName}`
+      });
+    } catch (err) {
+      reportError(err, 'Failed to add sell details');
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddBuyLot = async (lot: BuyLot) => {
+    if (!entry) return;
+    try {
+      setIsSaving(true);
+      await stockLedgerService.updateEntry(id, addBuyLot(entry, lot), changedBy);
+      await refresh();
+      toast({ title: "Position Updated", description: `Added ${lot.quantity} shares to ${entry.stockName}` });
+    } catch (err) {
+      reportError(err, 'Failed to add to position');
+      throw err;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      setIsSaving(true);
+      await stockLedgerService.deleteEntry(id);
+      toast({ title: "Entry Deleted", description: "Stock entry has been removed from your ledger" });
+      navigate('/ledger');
+    } catch (err) {
+      reportError(err, 'Failed to delete stock entry');
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Share it to point teammates at this trade" });
+    } catch (err) {
+      reportError(err, 'Failed to copy link');
+    }
+  };
+
+  const backLink = (
+    <Link href="/ledger" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground">
+      <ArrowLeft className="mr-1 h-4 w-4" />
+      Back to ledger
+    </Link>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !entry) {
+    return (
+      <div className="min-h-screen bg-background p-4 md:p-8">
+        <div className="mx-auto max-w-5xl space-y-6">
+          {backLink}
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              {error instanceof Error ? error.message : 'This stock entry could not be found.'}
+            </AlertDescription>
+          </Alert>
+        </div>
+      </div>
+    );
+  }
+
+  const currency = getCurrencySymbol(entry.symbol);
+  const formatPrice = (price: number) => `${currency}${price.toFixed(2)}`;
+  const isActive = entry.status === 'Active';
+
+  // Unrealized on the shares still held, realized on those sold
+  const invested = getInvestedAmount(entry);
+  const openQuantity = getOpenQuantity(entry);
+  const soldQuantity = entry.quantity - openQuantity;
+  const markPrice = isActive ? quote?.price : entry.priceSell;
+  const actions = getTradeActions(entry);
+  const unrealized = isActive && quote ? getUnrealizedProfitLoss(entry, quote.price) : undefined;
+  const openCost = getOpenCost(entry);
+  const realized = soldQuantity > 0 ? getRealizedProfitLoss(entry) : undefined;
+  const netRealized = getNetRealizedProfitLoss(entry);
+  const soldCost = getSoldCost(entry);
+  const charges = getEntryCharges(entry);
+  const priceRange = isActive ? getPriceRange(candles, quote) : null;
+  const reachedTargets = getReachedTargets(entry, priceRange ? getBestPrice(entry, priceRange) : undefined);
+  const plannedQuantities = getPlannedQuantities(entry);
+
+  return (
+    <div className="min-h-screen bg-background p-4 md:p-8">
+      <div className="mx-auto max-w-5xl space-y-6">
+        {backLink}
+
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold tracking-tight">{entry.stockName}</h1>
+              <Badge variant={isActive ? "default" : "secondary"}>{entry.status}</Badge>
+              <Badge variant={entry.direction === 'Short' ? "destructive" : "outline"}>{entry.direction}</Badge>
+            </div>
+            <p className="text-muted-foreground">{entry.symbol}</p>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={handleCopyLink}>
+              <Link2 className="mr-2 h-4 w-4" />
+              Copy link
+            </Button>
+            {isActive && (
+              <Button variant="outline" size="sm" onClick={() => setShowAddLot(true)}>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Add to position
+              </Button>
+            )}
+            {isActive && (
+              <Button variant="outline" size="sm" onClick={() => setShowSell(true)} className="text-green-600 hover:text-green-700">
+                <DollarSign className="mr-2 h-4 w-4" />
+                {actions.close}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setShowEdit(true)}>
+              <Edit2 className="mr-2 h-4 w-4" />
+              Edit
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowDelete(true)} className="text-destructive">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-4">
+          <Card className="p-4 space-y-1">
+            <div className="text-sm text-muted-foreground">{isActive ? 'Current Price' : 'Average Exit'}</div>
+            <div className="text-2xl font-bold">
+              {markPrice !== undefined ? formatPrice(markPrice) : <Loader2 className="h-5 w-5 animate-spin" />}
+            </div>
+            {markPrice !== undefined && (
+              <div className="text-sm text-muted-foreground">
+                {isActive
+                  ? `Value ${formatAmount(entry.symbol, getPositionValue(entry, markPrice))} of ${openQuantity} held`
+                  : `${actions.close === 'Cover' ? 'Cover cost' : 'Proceeds'} ${formatAmount(entry.symbol, markPrice * entry.quantity)}`}
+              </div>
+            )}
+            {isActive && quote?.marketState === 'CLOSED' && (
+              <div className="text-xs text-muted-foreground">As of last close</div>
+            )}
+          </Card>
+          <ProfitLossCard
+            label="Unrealized P&L"
+            symbol={entry.symbol}
+            amount={unrealized}
+            percent={unrealized !== undefined && openCost > 0 ? (unrealized / openCost) * 100 : undefined}
+          />
+          <ProfitLossCard
+            label={isActive && soldQuantity > 0 ? `Realized P&L (${soldQuantity} sold)` : 'Realized P&L'}
+            symbol={entry.symbol}
+            amount={realized}
+            percent={realized !== undefined ? (realized / soldCost) * 100 : undefined}
+            note={realized !== undefined
+              ? `Net ${netRealized >= 0 ? '+' : '-'}${formatAmount(entry.symbol, Math.abs(netRealized))} after charges`
+              : undefined}
+          />
+          <Card className="p-4 space-y-1">
+            <div className="text-sm text-muted-foreground">Outcome</div>
+            <div className="text-2xl font-bold">
+              {isActive
+                ? 'Open'
+                : entry.hitTarget ? 'Target Hit' : entry.hitStopLoss ? 'SL Hit' : 'Closed'}
+            </div>
+          </Card>
+        </div>
+
+        <Card className="p-4">
+          <TradeChart entry={entry} height={360} />
+        </Card>
+
+        <Card className="p-6 space-y-6">
+          <div>
+            <div className="text-sm text-muted-foreground mb-1">Thesis</div>
+            <p className="whitespace-pre-wrap">{entry.reason}</p>
+          </div>
+
+          <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+            <Detail label={actions.open}>
+              {entry.buyLots.length > 1
+                ? `${entry.quantity} × ${formatPrice(entry.priceBuy)} average since ${new Date(entry.dateBuy).toLocaleDateString()}`
+                : `${entry.quantity} × ${formatPrice(entry.priceBuy)} on ${new Date(entry.dateBuy).toLocaleDateString()}`}
+            </Detail>
+            <Detail label="Invested">{formatAmount(entry.symbol, invested)}</Detail>
+            <Detail label={actions.close}>
+              {entry.priceSell && entry.dateSell
+                ? entry.sellLots.length > 1
+                  ? `${soldQuantity} × ${formatPrice(entry.priceSell)} average until ${new Date(entry.dateSell).toLocaleDateString()}`
+                  : `${soldQuantity} × ${formatPrice(entry.priceSell)} on ${new Date(entry.dateSell).toLocaleDateString()}`
+                : '-'}
+            </Detail>
+            <Detail label={entry.targets.length > 1 ? "Final Target" : "Target"}>
+              {formatTargetLevel(entry)}
+            </Detail>
+            <Detail label="Stop Loss">
+              {entry.trailingStop
+                ? `${formatPrice(getStopLossAt({ ...entry, stopMoves }))} · ${describeTrailingStop(entry.trailingStop)}, initially ${formatStopLossLevel(entry)}`
+                : formatStopLossLevel(entry)}
+            </Detail>
+            <Detail label="R/R">
+              {getRiskReward(entry).toFixed(2)}
+            </Detail>
+            <Detail label="Confidence">{entry.confidence}</Detail>
+            <Detail label="Trade Type">{entry.tradeType}</Detail>
+            <Detail label="Broker">{entry.broker.name}</Detail>
+            <Detail label="Source">{entry.source || '-'}</Detail>
+            <Detail label="Added By">
+              <span className="inline-flex items-center gap-2">
+                <User className="h-4 w-4 text-muted-foreground" />
+                {entry.addedBy.displayName || entry.addedBy.email || 'Anonymous User'}
+              </span>
+            </Detail>
+          </div>
+
+          <div>
+            <div className="text-sm text-muted-foreground mb-2">{actions.open} Lots</div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="py-1 text-left font-normal">Date</th>
+                  <th className="py-1 text-right font-normal">Quantity</th>
+                  <th className="py-1 text-right font-normal">Price</th>
+                  <th className="py-1 text-right font-normal">Fees</th>
+                  <th className="py-1 text-right font-normal">Cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entry.buyLots.map((lot, index) => (
+                  <tr key={index} className="border-b last:border-0">
+                    <td className="py-1">{new Date(lot.date).toLocaleDateString()}</td>
+                    <td className="py-1 text-right">{lot.quantity}</td>
+                    <td className="py-1 text-right">{formatPrice(lot.price)}</td>
+                    <td className="py-1 text-right">{lot.fees > 0 ? formatPrice(lot.fees) : '-'}</td>
+                    <td className="py-1 text-right">{formatAmount(entry.symbol, lot.price * lot.quantity + lot.fees)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {entry.targets.length > 1 && (
+            <div>
+              <div className="text-sm text-muted-foreground mb-2">Scale-Out Plan</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="py-1 text-left font-normal">Stage</th>
+                    <th className="py-1 text-right font-normal">Target</th>
+                    <th className="py-1 text-right font-normal">Allocation</th>
+                    <th className="py-1 text-right font-normal">Shares</th>
+                    <th className="py-1 text-right font-normal">Reached</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entry.targets.map((target, stage) => (
+                    <tr key={stage} className="border-b last:border-0">
+                      <td className="py-1">T{stage + 1}</td>
+                      <td className="py-1 text-right">{formatStagedTarget(entry, target)}</td>
+                      <td className="py-1 text-right">{target.allocation}%</td>
+                      <td className="py-1 text-right">{plannedQuantities[stage]}</td>
+                      <td className={cn("py-1 text-right", reachedTargets[stage] && "text-green-600 font-medium")}>
+                        {reachedTargets[stage] ? 'Yes' : 'No'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {entry.trailingStop && stopMoves.length > 1 && (
+            <div>
+              <div className="text-sm text-muted-foreground mb-2">Stop Moves</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="py-1 text-left font-normal">Date</th>
+                    <th className="py-1 text-right font-normal">Stop</th>
+                    <th className="py-1 text-right font-normal">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stopMoves.map((move, index) => (
+                    <tr key={index} className="border-b last:border-0">
+                      <td className="py-1">{new Date(move.date).toLocaleDateString()}</td>
+                      <td className="py-1 text-right">{formatPrice(move.price)}</td>
+                      <td className="py-1 text-right">
+                        {index > 0 ? formatPrice(Math.abs(move.price - stopMoves[index - 1].price)) : 'Initial'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {entry.sellLots.length > 0 && (
+            <div>
+              <div className="text-sm text-muted-foreground mb-2">{actions.close} Lots</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-muted-foreground">
+                    <th className="py-1 text-left font-normal">Date</th>
+                    <th className="py-1 text-right font-normal">Quantity</th>
+                    <th className="py-1 text-right font-normal">Price</th>
+                    <th className="py-1 text-right font-normal">Value</th>
+                    <th className="py-1 text-right font-normal">P&L</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {entry.sellLots.map((lot, index) => {
+                    const lotProfitLoss = getRealizedProfitLoss({ ...entry, sellLots: [lot] });
+                    return (
+                      <tr key={index} className="border-b last:border-0">
+                        <td className="py-1">{new Date(lot.date).toLocaleDateString()}</td>
+                        <td className="py-1 text-right">{lot.quantity}</td>
+                        <td className="py-1 text-right">{formatPrice(lot.price)}</td>
+                        <td className="py-1 text-right">{formatAmount(entry.symbol, lot.price * lot.quantity)}</td>
+                        <td className={cn("py-1 text-right", lotProfitLoss >= 0 ? "text-green-600" : "text-red-600")}>
+                          {lotProfitLoss >= 0 ? '+' : '-'}{formatAmount(entry.symbol, Math.abs(lotProfitLoss))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {charges.total > 0 && (
+            <div>
+              <div className="text-sm text-muted-foreground mb-2">Charges So Far</div>
+              <ChargesBreakdown symbol={entry.symbol} charges={charges} />
+            </div>
+          )}
+
+          {entry.chartLink && (
+            <a
+              href={entry.chartLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center text-sm text-primary hover:underline"
+            >
+              <ExternalLink className="mr-1 h-4 w-4" />
+              Open chart
+            </a>
+          )}
+        </Card>
+
+        <Card className="p-6 space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-semibold">
+            <History className="h-5 w-5" />
+            Edit History
+          </h2>
+          {history ? <HistoryList history={history} /> : <Loader2 className="h-5 w-5 animate-spin" />}
+        </Card>
+      </div>
+
+      {showEdit && (
+        <StockEntryDialog
+          open={showEdit}
+          onClose={() => setShowEdit(false)}
+          onSubmit={handleEdit}
+          isLoading={isSaving}
+          entry={entry}
+        />
+      )}
+
+      {showAddLot && (
+        <AddToPositionDialog
+          open={showAddLot}
+          onClose={() => setShowAddLot(false)}
+          onSubmit={handleAddBuyLot}
+          isLoading={isSaving}
+          entry={entry}
+        />
+      )}
+
+      {showSell && (
+        <SellDetailsDialog
+          open={showSell}
+          onClose={() => setShowSell(false)}
+          onSubmit={handleSell}
+          isLoading={isSaving}
+          entry={entry}
+        />
+      )}
+
+      <AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this entry?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {entry.stockName} and its edit history will be removed from the ledger. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSaving}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete} disabled={isSaving}>
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
-import { useState, useEffect, Component } from "react";
+import { useState, useEffect, useMemo, useRef, Component } from "react";
+import { useLocation, useRoute, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
-import { Plus, Loader2, AlertCircle } from "lucide-react";
+import { Plus, Loader2, AlertCircle, Pin, PinOff } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import StockSearch from "@/components/StockSearch";
@@ -9,9 +10,21 @@ import StockStats from "@/components/StockStats";
 import LivePrice from "@/components/LivePrice";
 import StockEntryDialog from "@/components/StockEntryDialog";
 import StockLedgerEntry from "@/components/StockLedgerEntry";
+import LedgerFilterBar from "@/components/LedgerFilterBar";
+import LedgerSummary from "@/components/LedgerSummary";
+import MarketOverview from "@/components/MarketOverview";
+import PinnedSymbolGrid from "@/components/PinnedSymbolGrid";
 import { useToast } from "@/hooks/use-toast";
-import type { StockEntry, NewStockEntry } from "@/types/ledger";
+import { useLiveQuotes } from "@/hooks/use-live-quotes";
+import { getDailyCandleRanges } from "@/hooks/use-daily-candles";
+import { recordStopMoves } from "@/hooks/use-trailing-stop";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { useAuth } from "@/contexts/AuthContext";
+import type { BuyLot, StockEntry, NewStockEntry } from "@/types/ledger";
 import { stockLedgerService } from "@/lib/stockLedgerService";
+import { addBuyLot, addSellLot, getEditUpdates, getTradeActions, groupByCurrency, summarizeLedger } from "@/lib/trade";
+import { getCurrencySymbol } from "@/lib/format";
+import { applyLedgerQuery, parseLedgerQuery, toLedgerSearch } from "@/lib/ledgerFilters";
 
 // Error boundary component
 class ErrorBoundary extends Component<
@@ -69,15 +82,61 @@ function formatErrorMessage(error: unknown): string {
   return 'An unexpected error occurred';
 }
 
+// Route params arrive only partially decoded, which leaves symbols such as
+// M&M.NS escaped
+function decodeSymbol(symbol: string): string {
+  try {
+    return decodeURIComponent(symbol);
+  } catch {
+    return symbol;
+  }
+}
+
+// Rendered for `/`, `/stock/:symbol` and `/ledger`: the route picks the tab
+// and tracked symbol, and the ledger's filters and sort live in the query
+// string, so every view can be bookmarked and navigated with back/forward
 export default function StockDashboard() {
-  const [selectedSymbol, setSelectedSymbol] = useState<string>("");
+  const [, navigate] = useLocation();
+  const [, stockParams] = useRoute<{ symbol: string }>("/stock/:symbol");
+  const [isLedgerRoute] = useRoute("/ledger");
+  const search = useSearch();
+  const selectedSymbol = stockParams ? decodeSymbol(stockParams.symbol) : "";
+  const activeTab = isLedgerRoute ? "ledger" : "live";
+  const { filters, sort } = useMemo(() => parseLedgerQuery(search), [search]);
+
+  // Switching tabs returns to where each tab was left
+  const lastSymbol = useRef(selectedSymbol);
+  const lastLedgerSearch = useRef("");
+  if (selectedSymbol) lastSymbol.current = selectedSymbol;
+  if (isLedgerRoute) lastLedgerSearch.current = search ? `?${search}` : "";
+
   const [stockEntries, setStockEntries] = useState<StockEntry[]>([]);
   const [showAddEntry, setShowAddEntry] = useState(false);
-  const [activeTab, setActiveTab] = useState("live");
+  const [editingEntry, setEditingEntry] = useState<StockEntry | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isInitializing, setIsInitializing] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const watchlist = useWatchlist();
+
+  // Live quotes for every active entry
+  const activeSymbols = useMemo(
+    () => stockEntries.filter(e => e.status === 'Active').map(e => e.symbol),
+    [stockEntries]
+  );
+  const { quotes } = useLiveQuotes(activeSymbols);
+
+  // Portfolio totals per currency, over the whole ledger regardless of filters
+  const summaries = useMemo(
+    () => Array.from(groupByCurrency(stockEntries), ([currency, entries]) => ({
+      currency,
+      summary: summarizeLedger(entries, quotes)
+    })),
+    [stockEntries, quotes]
+  );
+  const portfolioValues = new Map(summaries.map(({ currency, summary }) => [currency, summary.currentValue]));
+  const changedBy = user && { uid: user.uid, email: user.email ?? '', displayName: user.displayName };
 
   // Load stock entries from Firestore
   useEffect(() => {
@@ -92,6 +151,16 @@ export default function StockDashboard() {
         if (mounted) {
           setStockEntries(entries);
         }
+
+        // Trailing stops that moved since the ledger was last opened
+        const changedBy = user && { uid: user.uid, email: user.email ?? '', displayName: user.displayName };
+        const recorded = await recordStopMoves(entries, changedBy);
+        if (mounted && recorded.size > 0) {
+          setStockEntries(current => current.map(entry => {
+            const stopMoves = recorded.get(entry.id);
+            return stopMoves ? { ...entry, stopMoves } : entry;
+          }));
+        }
       } catch (err) {
         if (mounted) {
           const errorMessage = formatErrorMessage(err);
@@ -115,10 +184,50 @@ export default function StockDashboard() {
     return () => {
       mounted = false;
     };
-  }, [toast]);
+  }, [toast, user]);
+
+  const visibleEntries = useMemo(
+    () => applyLedgerQuery(stockEntries, filters, sort),
+    [stockEntries, filters, sort]
+  );
+  // One request of daily candles per symbol, shared by its rows and by the
+  // stop moves recorded on load
+  const candleRanges = useMemo(() => getDailyCandleRanges(stockEntries), [stockEntries]);
+
+  const handleTabChange = (tab: string) => {
+    if (tab === "ledger") {
+      navigate(`/ledger${lastLedgerSearch.current}`);
+    } else {
+      navigate(lastSymbol.current ? `/stock/${encodeURIComponent(lastSymbol.current)}` : "/");
+    }
+  };
+
+  const handleLedgerQueryChange: React.ComponentProps<typeof LedgerFilterBar>["onChange"] = (
+    nextFilters,
+    nextSort,
+    options
+  ) => {
+    navigate(`/ledger${toLedgerSearch(nextFilters, nextSort)}`, { replace: options?.replace });
+  };
+
+  const handleTogglePin = async (symbol: string) => {
+    try {
+      if (watchlist.isPinned(symbol)) {
+        await watchlist.unpin(symbol);
+      } else {
+        await watchlist.pin(symbol);
+      }
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: formatErrorMessage(err)
+      });
+    }
+  };
 
   const handleSymbolSelect = (symbol: string) => {
-    setSelectedSymbol(symbol);
+    navigate(`/stock/${encodeURIComponent(symbol)}`);
     toast({
       title: "Stock Selected",
       description: `Now tracking ${symbol}`,
@@ -186,13 +295,56 @@ export default function StockDashboard() {
     }
   };
 
-  const handleEditEntry = async (entry: StockEntry) => {
+  const handleAddBuyLot = async (id: string, lot: BuyLot) => {
     try {
-      await stockLedgerService.updateEntry(entry.id, entry);
-      
+      const entryToUpdate = stockEntries.find(e => e.id === id);
+      if (!entryToUpdate) {
+        throw new Error('Entry not found');
+      }
+
+      await stockLedgerService.updateEntry(id, addBuyLot(entryToUpdate, lot), changedBy);
+      // Refetched for the risk/reward the service recomputes
+      const updatedEntry = await stockLedgerService.getEntry(id);
+
+      setStockEntries(entries =>
+        entries.map(e => e.id === id ? updatedEntry : e)
+      );
+
+      toast({
+        title: "Position Updated",
+        description: `Added ${lot.quantity} shares to ${entryToUpdate.stockName}`,
+      });
+    } catch (err) {
+      const errorMessage = formatErrorMessage(err);
+      console.error('Failed to add to position:', {
+        error: err instanceof Error ? {
+          message: err.message,
+          stack: err.stack
+        } : String(err),
+        entryId: id
+      });
+
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: errorMessage
+      });
+    }
+  };
+
+  const handleEditEntry = async (values: NewStockEntry) => {
+    if (!editingEntry) return;
+    const entry = editingEntry;
+
+    try {
+      setIsLoading(true);
+      await stockLedgerService.updateEntry(entry.id, getEditUpdates(entry, values), changedBy);
+      const updatedEntry = await stockLedgerService.getEntry(entry.id);
+
       setStockEntries(entries => 
-        entries.map(e => e.id === entry.id ? entry : e)
+        entries.map(e => e.id === entry.id ? updatedEntry : e)
       );
+      setEditingEntry(null);
       
       toast({
         title: "Entry Updated",
@@ -213,6 +365,10 @@ export default function StockDashboard() {
         title: "Error",
         description: errorMessage
       });
+
+      throw err; // Keep the dialog open with the user's changes
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -233,7 +389,9 @@ export default function StockDashboard() {
         <div className="mx-auto max-w-7xl space-y-6">
           <h1 className="text-4xl font-bold tracking-tight">Stock Tracker</h1>
 
-          <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <MarketOverview />
+
+          <Tabs value={activeTab} onValueChange={handleTabChange}>
             <div className="border-b">
               <TabsList className="w-full justify-start">
                 <TabsTrigger value="live" className="relative px-4 py-2">
@@ -250,11 +408,34 @@ export default function StockDashboard() {
                 <StockSearch onSelect={handleSymbolSelect} />
               </div>
 
+              <PinnedSymbolGrid
+                selectedSymbol={selectedSymbol}
+                onSelect={(symbol) => navigate(`/stock/${encodeURIComponent(symbol)}`)}
+              />
+
               {selectedSymbol && (
                 <>
                   <div className="grid gap-6 md:grid-cols-4">
-                    <div className="md:col-span-1 rounded-lg border p-4">
+                    <div className="md:col-span-1 rounded-lg border p-4 space-y-4">
                       <LivePrice symbol={selectedSymbol} />
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => handleTogglePin(selectedSymbol)}
+                      >
+                        {watchlist.isPinned(selectedSymbol) ? (
+                          <>
+                            <PinOff className="mr-2 h-4 w-4" />
+                            Unpin
+                          </>
+                        ) : (
+                          <>
+                            <Pin className="mr-2 h-4 w-4" />
+                            Pin to tracker
+                          </>
+                        )}
+                      </Button>
                     </div>
 
                     <div className="md:col-span-3 rounded-lg border p-4">
@@ -278,6 +459,12 @@ export default function StockDashboard() {
                 </Button>
               </div>
 
+              {summaries.map(({ currency, summary }) => (
+                <LedgerSummary key={currency} currency={currency} summary={summary} />
+              ))}
+
+              <LedgerFilterBar filters={filters} sort={sort} onChange={handleLedgerQueryChange} />
+
               {error && (
                 <Alert variant="destructive">
                   <AlertCircle className="h-4 w-4" />
@@ -302,6 +489,10 @@ export default function StockDashboard() {
                       </Button>
                     </div>
                   </div>
+                ) : visibleEntries.length === 0 ? (
+                  <div className="rounded-lg border bg-muted/50 p-8 text-center text-muted-foreground">
+                    No entries match these filters.
+                  </div>
                 ) : (
                   <div className="rounded-lg border overflow-hidden">
                     <div className="overflow-x-auto">
@@ -324,30 +515,28 @@ export default function StockDashboard() {
                           </tr>
                         </thead>
                         <tbody>
-                          {stockEntries.map((entry, index) => (
+                          {visibleEntries.map((entry, index) => (
                             <StockLedgerEntry
                               key={entry.id}
                               entry={entry}
+                              quote={quotes[entry.symbol]}
+                              portfolioValue={portfolioValues.get(getCurrencySymbol(entry.symbol))}
+                              candleRange={candleRanges.get(entry.symbol)}
                               index={index}
-                              onEdit={handleEditEntry}
+                              onEdit={setEditingEntry}
                               onDelete={handleDeleteEntry}
-                              onAddSellDetails={async (id, sellDetails) => {
+                              onAddBuyLot={handleAddBuyLot}
+                              onAddSellDetails={async (id, lot, stopMoves) => {
                                 try {
                                   const entryToUpdate = stockEntries.find(e => e.id === id);
                                   if (!entryToUpdate) {
                                     throw new Error('Entry not found');
                                   }
 
-                                  const updatedEntry = {
-                                    ...entryToUpdate,
-                                    ...sellDetails,
-                                    status: 'Closed' as const,
-                                    profitLoss: sellDetails.priceSell - entryToUpdate.priceBuy,
-                                    hitTarget: sellDetails.priceSell >= entryToUpdate.priceBuy * (1 + entryToUpdate.targetPercent / 100),
-                                    hitStopLoss: sellDetails.priceSell <= entryToUpdate.priceBuy * (1 - entryToUpdate.stopLossPercent / 100)
-                                  };
+                                  const sale = addSellLot({ ...entryToUpdate, stopMoves }, lot);
+                                  const updatedEntry = { ...entryToUpdate, ...sale };
 
-                                  await stockLedgerService.updateEntry(id, updatedEntry);
+                                  await stockLedgerService.updateEntry(id, sale, changedBy);
                                   
                                   setStockEntries(entries => 
                                     entries.map(e => e.id === id ? updatedEntry : e)
@@ -355,7 +544,9 @@ export default function StockDashboard() {
                                   
                                   toast({
                                     title: "Success",
-                                    description: `Added sell details for ${updatedEntry.stockName}`,
+                                    description: updatedEntry.status === 'Closed'
+                                      ? `Closed ${updatedEntry.stockName}`
+                                      : `${getTradeActions(updatedEntry).close === 'Cover' ? 'Covered' : 'Sold'} ${lot.quantity} shares of ${updatedEntry.stockName}`,
                                   });
                                 } catch (err) {
                                   const errorMessage = formatErrorMessage(err);
@@ -393,6 +584,17 @@ export default function StockDashboard() {
             isLoading={isLoading}
           />
         )}
+
+        {editingEntry && (
+          <StockEntryDialog
+            key={editingEntry.id}
+            open={!!editingEntry}
+            onClose={() => setEditingEntry(null)}
+            onSubmit={handleEditEntry}
+            isLoading={isLoading}
+            entry={editingEntry}
+          />
+        )}
       </div>
     </ErrorBoundary>
   );
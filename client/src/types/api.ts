@@ -1,39 +1,41 @@
 // types/api.ts
 
+import type { IndexOverview, MarketStatus, SymbolSparkline, StockData } from './stocks';
+
 export interface APIError {
   error: string;
   details: string;
   code: string;
 }
 
-export interface YahooFinanceResponse {
-  chart?: {
-    result?: Array<{
-      meta?: {
-        symbol: string;
-        regularMarketPrice: number;
-        previousClose: number;
-        currency: string;
-        exchangeName: string;
-        regularMarketOpen: number;
-        regularMarketDayHigh: number;
-        regularMarketDayLow: number;
-        regularMarketVolume: number;
-      };
-      timestamp: number[];
-      indicators: {
-        quote: Array<{
-          close: number[];
-          volume?: number[];
-          open?: number[];
-          high?: number[];
-          low?: number[];
-        }>;
-      };
-    }>;
-    error?: {
-      code: string;
-      description: string;
-    };
-  };
-}
\ No newline at end of file
+// Error codes returned when chart range/interval query parameters are rejected
+export type ChartParamErrorCode = 'INVALID_RANGE' | 'INVALID_INTERVAL' | 'INCOMPATIBLE_INTERVAL';
+
+export interface QuoteError {
+  symbol: string;
+  details: string;
+  code: string;
+}
+
+// Response of the batch quote endpoint (/api/quotes)
+export interface QuotesResponse {
+  quotes: StockData[];
+  errors: QuoteError[];
+}
+
+// Response of the batch sparkline endpoint (/api/sparklines)
+export interface SparklinesResponse {
+  sparklines: SymbolSparkline[];
+  errors: QuoteError[];
+}
+
+// Response of the market overview endpoint (/api/indices)
+export interface IndicesResponse {
+  indices: IndexOverview[];
+  errors: QuoteError[];
+}
+
+// Response of the market calendar endpoint (/api/market/status)
+export interface MarketStatusResponse {
+  markets: MarketStatus[];
+}
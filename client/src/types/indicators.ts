@@ -0,0 +1,30 @@
+// types/indicators.ts
+
+export type IndicatorType = 'SMA' | 'EMA' | 'BB' | 'RSI' | 'MACD' | 'ATR' | 'VWAP';
+
+// Overlays share the price axis; panes get their own chart below it
+export type IndicatorPlacement = 'overlay' | 'pane';
+
+export interface IndicatorConfig {
+  id: string;
+  type: IndicatorType;
+  params: Record<string, number>;
+}
+
+// One plotted series of an indicator, aligned index-for-index with the candles
+export interface IndicatorLine {
+  key: string;
+  label: string;
+  color: string;
+  values: Array<number | null>;
+  style?: 'line' | 'histogram';
+}
+
+export interface IndicatorPreset {
+  id: string;
+  uid: string;
+  name: string;
+  indicators: IndicatorConfig[];
+  createdAt: string;
+  updatedAt: string;
+}
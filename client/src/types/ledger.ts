@@ -1,21 +1,126 @@
 // types/ledger.ts
 
+// One purchase into a position
+export interface BuyLot {
+  date: string;
+  price: number;
+  quantity: number;
+  fees: number;  // Charges paid on the purchase beyond the broker schedule and levies
+}
+
+// A long position profits when the price rises, a short one when it falls.
+// For shorts the buy lots are the short sales opening the position and the
+// sell lots the purchases covering it.
+export type TradeDirection = 'Long' | 'Short';
+
+// Indian equity trades are taxed differently when held overnight
+export type TradeType = 'Delivery' | 'Intraday';
+
+// Brokerage per order: a flat amount, or a percentage of the order value
+// with an optional cap
+export type BrokerageFee =
+  | { type: 'flat'; amount: number }
+  | { type: 'percent'; percent: number; cap?: number };
+
+export interface BrokerSchedule {
+  name: string;
+  delivery: BrokerageFee;
+  intraday: BrokerageFee;
+  dpCharge: number;  // Depository charge per delivery sell order, before GST
+}
+
+// Costs of one or more orders, in the currency the stock is priced in
+export interface TradeCharges {
+  brokerage: number;
+  stt: number;  // Securities transaction tax
+  exchange: number;  // Exchange transaction charges
+  sebi: number;  // SEBI turnover fees
+  stampDuty: number;
+  gst: number;
+  dp: number;  // Depository participant charges
+  other: number;  // Fees entered on buy lots
+  total: number;
+}
+
+// One sale out of a position
+export interface SellLot {
+  date: string;
+  price: number;
+  quantity: number;
+  // Average price of the lots bought by the sale's date, which later
+  // purchases leave as booked
+  costBasis: number;
+}
+
+// A sale as entered, before it is booked against the position's cost
+export type NewSellLot = Omit<SellLot, 'costBasis'>;
+
+// One stage of a scale-out plan: a target level and the share of the
+// position to book there
+export interface StagedTarget {
+  percent: number;  // Distance from the buy price when entered
+  price?: number;  // Set when entered as a price, which is then authoritative
+  allocation: number;  // Percentage of the position
+}
+
+// How an entry's stop-loss follows the price once it moves the trade's way:
+// trailing the best price by a percentage or by a multiple of the average
+// true range, or jumping to the buy price once T1 is reached
+export type TrailingStop =
+  | { type: 'percent'; percent: number }
+  | { type: 'atr'; multiple: number; period: number }
+  | { type: 'breakeven' };
+
+// A level the stop-loss moved to, dated by the trading day that moved it
+export interface StopMove {
+  date: string;
+  price: number;
+}
+
 export interface StockEntry {
   id: string;
   stockName: string;
   symbol: string;
+  direction: TradeDirection;
+  // Purchases in date order. dateBuy, priceBuy and quantity summarize them:
+  // first purchase date, weighted average price, and total shares bought.
+  // Fees are left out of the price and counted with the other charges.
+  buyLots: BuyLot[];
   dateBuy: string;
   priceBuy: number;
+  quantity: number;  // Entries saved before quantities were tracked count as 1
+  // Scale-out plan from the nearest target to the furthest, its allocations
+  // adding up to 100. targetPercent and targetPrice summarize it as the
+  // final target.
+  targets: StagedTarget[];
+  // Levels as percentages of the buy price, or as absolute prices when
+  // entered that way. A stored price is authoritative and stays put as lots
+  // move the average price; its percentage is as of when it was entered.
   targetPercent: number;
   stopLossPercent: number;
+  targetPrice?: number;
+  stopLossPrice?: number;
+  trailingStop?: TrailingStop;
+  // Levels the trailing stop has moved to, oldest first, recorded when the
+  // entry is loaded and with each sale so its path can be audited. The
+  // latest is the stop in effect.
+  stopMoves: StopMove[];
   riskReward?: number;  // Made optional
   reason: string;
   chartLink?: string;
   source: string;  // Added source field
   confidence: 'Low' | 'Medium' | 'High';
-  profitLoss?: number;
-  hitTarget?: boolean;
-  hitStopLoss?: boolean;
+  tradeType: TradeType;
+  // The broker's fees when the entry was added, so later schedule changes
+  // leave recorded charges alone
+  broker: BrokerSchedule;
+  // Sales in date order. The entry stays Active until every share is sold;
+  // dateSell and priceSell summarize the sales as the latest sale date and
+  // average exit price.
+  sellLots: SellLot[];
+  profitLoss?: number;  // Realized by the sales so far against their cost basis, before charges
+  hitTarget?: boolean;  // Some sale reached the target
+  hitStopLoss?: boolean;  // Some sale was at or below the stop-loss
   dateSell?: string;
   priceSell?: number;
   status: 'Active' | 'Closed';
@@ -30,9 +135,21 @@ export interface StockEntry {
 
 export type NewStockEntry = Omit<
   StockEntry,
-  'id' | 'createdAt' | 'updatedAt' | 'status' | 'riskReward'
+  'id' | 'createdAt' | 'updatedAt' | 'status' | 'riskReward' | 'sellLots' | 'stopMoves'
 >;
 
+// One recorded edit of a StockEntry; `from`/`to` hold the stored values
+// (dates as ISO strings)
+export interface StockEntryChange {
+  id: string;
+  changedAt: string;
+  changedBy: StockEntry['addedBy'] | null;
+  changes: Record<string, {
+    from: string | number | boolean | null;
+    to: string | number | boolean | null;
+  }>;
+}
+
 export interface StockPosition {
   entry: StockEntry;
   currentPrice?: number;
@@ -43,11 +160,22 @@ export interface StockPosition {
 
 export interface StockLedgerFilters {
   status?: 'Active' | 'Closed';
+  direction?: TradeDirection;
   confidence?: 'Low' | 'Medium' | 'High';
+  // Buy dates, inclusive; either end may be open
   dateRange?: {
     start: string;
     end: string;
   };
+  // Matched against stock name and symbol
+  search?: string;
+}
+
+export type StockLedgerSortField = 'createdAt' | 'dateBuy' | 'stockName' | 'riskReward' | 'confidence';
+
+export interface StockLedgerSort {
+  field: StockLedgerSortField;
+  direction: 'asc' | 'desc';
 }
 
 export interface StockLedgerSummary {
@@ -58,5 +186,7 @@ export interface StockLedgerSummary {
   currentValue: number;
   overallProfitLoss: number;
   overallProfitLossPercent: number;
+  totalCharges: number;  // Paid on every order so far
+  netProfitLoss: number;  // Overall P&L after charges
   winRate: number;
 }
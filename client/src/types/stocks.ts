@@ -13,14 +13,100 @@ export interface StockData {
   low?: number;
   volume?: number;
   previousClose?: number;
+  fiftyTwoWeekHigh?: number;
+  fiftyTwoWeekLow?: number;
+  marketState?: MarketState;  // Session of the symbol's market, from the server calendar
+  stale?: boolean;  // Served from cache after an upstream failure
+  age?: number;     // Seconds since a stale quote was fetched
 }
 
+// Intraday closes of a symbol for a mini-chart
+export interface SymbolSparkline {
+  symbol: string;
+  previousClose?: number;
+  sparkline: number[];  // Intraday closes, oldest first
+}
+
+export type StockMarket = 'NSE' | 'BSE' | 'US';
+
 export interface StockSearchResult {
   symbol: string;
   name: string;
-  exchange: string;
-  market: string;
+  exchange: string;     // Listing venue shown to users, e.g. NSE, BSE, NASDAQ, NYSE
+  market: StockMarket;
 }
 
 export type ChartTimeframe = '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '5y' | 'max';
-export type ChartInterval = '1m' | '5m' | '15m' | '30m' | '60m' | '1d' | '1wk' | '1mo';
\ No newline at end of file
+export type ChartInterval = '1m' | '5m' | '15m' | '30m' | '60m' | '1d' | '1wk' | '1mo';
+
+export interface Candle {
+  time: number;  // Unix timestamp in seconds
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export type MarketState = 'PRE' | 'REGULAR' | 'POST' | 'CLOSED';
+
+// Trading calendars known to the server. BSE shares the NSE calendar and
+// every US listing follows the NYSE one.
+export type MarketCalendarId = 'NSE' | 'NYSE';
+
+// Entry of /api/market/status
+export interface MarketStatus {
+  market: MarketCalendarId;
+  state: MarketState;
+  isOpen: boolean;            // Any session other than CLOSED
+  timeZone: string;
+  localDate: string;          // YYYY-MM-DD in the exchange's time zone
+  holiday?: string;           // Name of today's holiday, if any
+  nextOpen: string | null;    // ISO timestamp of the next regular session open
+  nextClose: string | null;   // ISO timestamp of the next regular session close
+}
+
+// Payload of /api/stock/:symbol: the latest quote for the symbol plus the
+// candles for the requested range/interval. This is the only market data
+// shape the UI reads, whichever vendor the server is using.
+export interface StockChartData extends StockData {
+  range: ChartTimeframe;
+  interval: ChartInterval;
+  marketState: MarketState;
+  candles: Candle[];
+}
+
+// One entry of the market overview (/api/indices)
+export interface IndexOverview {
+  symbol: string;
+  name: string;
+  price: number;
+  change: number;
+  percentChange: number;
+  currency: string;
+  marketState: MarketState;
+  sparkline: number[];  // Intraday closes, oldest first
+  stale?: boolean;
+}
+
+// Payload of /api/stock/:symbol/stats. Derived figures are computed on the
+// server from the quote, today's 1-minute candles and a year of daily candles.
+export interface StockStatistics {
+  symbol: string;
+  currency: string;
+  price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  previousClose?: number;
+  fiftyTwoWeekHigh: number | null;
+  fiftyTwoWeekLow: number | null;
+  fiftyTwoWeekPosition: number | null;  // 0-100, where the price sits in the 52-week range
+  vwap: number | null;                  // Intraday volume weighted average price
+  averageVolume20d: number | null;      // Mean daily volume of the last 20 completed sessions
+  relativeVolume: number | null;        // Today's volume over averageVolume20d
+  marketState: MarketState;
+  stale?: boolean;
+  age?: number;
+}
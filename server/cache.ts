@@ -0,0 +1,88 @@
+// server/cache.ts
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  stale: boolean;
+  age: number; // seconds since the value was fetched
+}
+
+interface ResponseCacheOptions {
+  ttlMs: number;
+  maxEntries?: number;
+  // Decides whether a failed load may be answered with the last good value
+  serveStaleOn?: (error: unknown) => boolean;
+}
+
+// In-process TTL cache for upstream responses.
+// Concurrent requests for the same key share a single in-flight load, and
+// when a load fails with an error accepted by `serveStaleOn` the last good
+// value is returned flagged as stale instead of the error.
+export class ResponseCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private inFlight = new Map<string, Promise<T>>();
+  private ttlMs: number;
+  private maxEntries: number;
+  private serveStaleOn: (error: unknown) => boolean;
+
+  constructor({ ttlMs, maxEntries = 500, serveStaleOn = () => false }: ResponseCacheOptions) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = maxEntries;
+    this.serveStaleOn = serveStaleOn;
+  }
+
+  async get(key: string, load: () => Promise<T>): Promise<CacheResult<T>> {
+    const cached = this.entries.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.ttlMs) {
+      return { value: cached.value, stale: false, age: this.ageOf(cached) };
+    }
+
+    try {
+      const value = await this.loadOnce(key, load);
+      return { value, stale: false, age: 0 };
+    } catch (error) {
+      const fallback = this.entries.get(key);
+      if (fallback && this.serveStaleOn(error)) {
+        return { value: fallback.value, stale: true, age: this.ageOf(fallback) };
+      }
+      throw error;
+    }
+  }
+
+  private loadOnce(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = load()
+      .then(value => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private set(key: string, value: T) {
+    // Re-insert so the Map's iteration order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, { value, fetchedAt: Date.now() });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  private ageOf(entry: CacheEntry<T>): number {
+    return Math.round((Date.now() - entry.fetchedAt) / 1000);
+  }
+}
@@ -0,0 +1,240 @@
+// server/marketCalendar.ts
+
+import fs from "fs";
+import path from "path";
+import type {
+  MarketCalendarId,
+  MarketState,
+  MarketStatus
+} from "../client/src/types/stocks";
+
+interface Session {
+  start: string; // HH:mm, exchange local time
+  end: string;
+}
+
+interface ExchangeHours {
+  timeZone: string;
+  pre: Session;
+  regular: Session;
+  post: Session;
+}
+
+interface HolidayCalendar {
+  holidays: Record<string, string>; // YYYY-MM-DD -> holiday name
+  earlyCloses: Record<string, string>; // YYYY-MM-DD -> HH:mm regular session close
+}
+
+// Trading sessions in exchange local time. BSE follows the NSE timetable and
+// holiday list, so Indian symbols share the NSE calendar.
+const EXCHANGE_HOURS: Record<MarketCalendarId, ExchangeHours> = {
+  NSE: {
+    timeZone: 'Asia/Kolkata',
+    pre: { start: '09:00', end: '09:15' },
+    regular: { start: '09:15', end: '15:30' },
+    post: { start: '15:40', end: '16:00' }
+  },
+  NYSE: {
+    timeZone: 'America/New_York',
+    pre: { start: '04:00', end: '09:30' },
+    regular: { start: '09:30', end: '16:00' },
+    post: { start: '16:00', end: '20:00' }
+  }
+};
+
+export const MARKET_CALENDARS = Object.keys(EXCHANGE_HOURS) as MarketCalendarId[];
+
+const INDIAN_INDICES = ['^NSEI', '^BSESN', '^NSEBANK'];
+
+// Holidays are published yearly by the exchanges; extend the data file
+// (or point MARKET_HOLIDAYS_FILE at another one) before a new year starts.
+const HOLIDAYS_FILE = process.env.MARKET_HOLIDAYS_FILE ||
+  path.resolve(process.cwd(), "server", "data", "market-holidays.json");
+
+function loadHolidays(file: string): Record<MarketCalendarId, HolidayCalendar> {
+  try {
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return {
+      NSE: { holidays: {}, earlyCloses: {}, ...data.NSE },
+      NYSE: { holidays: {}, earlyCloses: {}, ...data.NYSE }
+    };
+  } catch (error) {
+    console.error(`Failed to load market holidays from ${file}:`, error);
+    return {
+      NSE: { holidays: {}, earlyCloses: {} },
+      NYSE: { holidays: {}, earlyCloses: {} }
+    };
+  }
+}
+
+const calendars = loadHolidays(HOLIDAYS_FILE);
+
+// Calendar that decides the trading hours of a symbol
+export function getMarketForSymbol(symbol: string): MarketCalendarId {
+  if (symbol.endsWith('.NS') || symbol.endsWith('.BO') || INDIAN_INDICES.includes(symbol)) {
+    return 'NSE';
+  }
+  return 'NYSE';
+}
+
+interface LocalTime {
+  date: string; // YYYY-MM-DD
+  minutes: number; // minutes since local midnight
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getZonedParts(instant: Date, timeZone: string) {
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(instant).forEach(({ type, value }) => {
+    parts[type] = value;
+  });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second)
+  };
+}
+
+function toLocalTime(instant: Date, timeZone: string): LocalTime {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone);
+  return {
+    date: `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`,
+    minutes: hour * 60 + minute
+  };
+}
+
+function toMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function addDays(date: string, days: number) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// UTC instant of a wall-clock time in the exchange's time zone. The offset is
+// measured twice so that times right after a DST switch come out right.
+function toInstant(date: string, time: string, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  const offsetAt = (instant: number) => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - Math.floor(instant / 1000) * 1000;
+  };
+
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+  return new Date(instant);
+}
+
+const warnedYears = new Set<string>();
+
+// Without holiday data for a year every weekday counts as a trading day
+function warnIfUncovered(market: MarketCalendarId, date: string) {
+  const year = date.slice(0, 4);
+  const key = `${market}:${year}`;
+  if (warnedYears.has(key)) return;
+  warnedYears.add(key);
+
+  const dates = Object.keys(calendars[market].holidays);
+  if (!dates.some(holiday => holiday.startsWith(year))) {
+    console.warn(`No ${market} holidays listed for ${year} in ${HOLIDAYS_FILE}`);
+  }
+}
+
+// Flag a data file that has fallen behind as soon as the server starts,
+// rather than on the first request of the year
+MARKET_CALENDARS.forEach(market => {
+  warnIfUncovered(market, toLocalTime(new Date(), EXCHANGE_HOURS[market].timeZone).date);
+});
+
+function isTradingDay(market: MarketCalendarId, date: string) {
+  warnIfUncovered(market, date);
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return weekday !== 0 && weekday !== 6 && !calendars[market].holidays[date];
+}
+
+function regularClose(market: MarketCalendarId, date: string) {
+  return calendars[market].earlyCloses[date] || EXCHANGE_HOURS[market].regular.end;
+}
+
+// Current session of a market
+export function getMarketState(market: MarketCalendarId, now = new Date()): MarketState {
+  const hours = EXCHANGE_HOURS[market];
+  const local = toLocalTime(now, hours.timeZone);
+  if (!isTradingDay(market, local.date)) return 'CLOSED';
+
+  const within = (start: string, end: string) =>
+    local.minutes >= toMinutes(start) && local.minutes < toMinutes(end);
+
+  const close = regularClose(market, local.date);
+  if (within(hours.regular.start, close)) return 'REGULAR';
+  if (within(hours.pre.start, hours.pre.end)) return 'PRE';
+  // No extended session after an early close
+  if (close === hours.regular.end && within(hours.post.start, hours.post.end)) return 'POST';
+  return 'CLOSED';
+}
+
+export function getSymbolMarketState(symbol: string, now = new Date()): MarketState {
+  return getMarketState(getMarketForSymbol(symbol), now);
+}
+
+// Full status of a market, including when the regular session next opens
+// and closes
+export function getMarketStatus(market: MarketCalendarId, now = new Date()): MarketStatus {
+  const hours = EXCHANGE_HOURS[market];
+  const local = toLocalTime(now, hours.timeZone);
+  const state = getMarketState(market, now);
+  const holiday = calendars[market].holidays[local.date];
+
+  let nextOpen: string | null = null;
+  let nextClose: string | null = null;
+  // Two weeks is enough to skip any run of weekends and holidays
+  for (let offset = 0; offset < 14 && (!nextOpen || !nextClose); offset++) {
+    const date = addDays(local.date, offset);
+    if (!isTradingDay(market, date)) continue;
+
+    const open = toInstant(date, hours.regular.start, hours.timeZone);
+    const close = toInstant(date, regularClose(market, date), hours.timeZone);
+    if (!nextOpen && open > now) nextOpen = open.toISOString();
+    if (!nextClose && close > now) nextClose = close.toISOString();
+  }
+
+  return {
+    market,
+    state,
+    isOpen: state !== 'CLOSED',
+    timeZone: hours.timeZone,
+    localDate: local.date,
+    ...(holiday ? { holiday } : {}),
+    nextOpen,
+    nextClose
+  };
+}
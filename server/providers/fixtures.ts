@@ -0,0 +1,120 @@
+// server/providers/fixtures.ts
+
+import fs from "fs/promises";
+import path from "path";
+import type { StockSearchResult } from "../../client/src/types/stocks";
+import {
+  MarketDataError,
+  type CandleSeries,
+  type ChartParams,
+  type MarketDataProvider
+} from "./types";
+
+// Fixture directory layout, shared by the replay provider and the recorder:
+//   quotes/<SYMBOL>.json                   StockData
+//   candles/<SYMBOL>/<range>_<interval>.json  CandleSeries
+//   search.json                            StockSearchResult[]
+// The bundled set in server/fixtures/market-data is synthetic sample data for
+// a handful of symbols; point MARKET_DATA_RECORD_DIR at a directory while
+// running against Yahoo to capture real responses.
+function quotePath(dir: string, symbol: string) {
+  return path.join(dir, 'quotes', `${encodeURIComponent(symbol)}.json`);
+}
+
+function candlesPath(dir: string, symbol: string, { range, interval }: ChartParams) {
+  return path.join(dir, 'candles', encodeURIComponent(symbol), `${range}_${interval}.json`);
+}
+
+function searchPath(dir: string) {
+  return path.join(dir, 'search.json');
+}
+
+async function readFixture<T>(file: string, description: string): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf-8')) as T;
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      throw new MarketDataError('NOT_FOUND', `No fixture recorded for ${description}`, 404);
+    }
+    throw new MarketDataError('INVALID_RESPONSE', `Unreadable fixture ${file}: ${error?.message}`);
+  }
+}
+
+async function writeFixture(file: string, value: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(value));
+}
+
+// Serves previously recorded responses from disk, so the app runs
+// deterministically without network access
+export function createFixtureProvider(dir: string): MarketDataProvider {
+  return {
+    name: 'fixtures',
+
+    getQuote(symbol) {
+      return readFixture(quotePath(dir, symbol), symbol);
+    },
+
+    getCandles(symbol, params) {
+      return readFixture<CandleSeries>(
+        candlesPath(dir, symbol, params),
+        `${symbol} (range: ${params.range}, interval: ${params.interval})`
+      );
+    },
+
+    async search(query, markets) {
+      const results = await readFixture<StockSearchResult[]>(searchPath(dir), 'search');
+      const needle = query.trim().toUpperCase();
+      return results
+        .filter(result => markets.includes(result.market))
+        .filter(result => (
+          result.symbol.toUpperCase().includes(needle) ||
+          result.name.toUpperCase().includes(needle)
+        ))
+        .slice(0, 10);
+    }
+  };
+}
+
+// Wraps a provider and writes every successful response into `dir` in the
+// layout read by createFixtureProvider
+export function withRecording(provider: MarketDataProvider, dir: string): MarketDataProvider {
+  const record = (file: string, value: unknown) => {
+    writeFixture(file, value).catch(error => {
+      console.error(`Failed to record fixture ${file}:`, error);
+    });
+  };
+
+  return {
+    name: `${provider.name}+recording`,
+
+    async getQuote(symbol) {
+      const quote = await provider.getQuote(symbol);
+      record(quotePath(dir, symbol), quote);
+      return quote;
+    },
+
+    async getCandles(symbol, params) {
+      const series = await provider.getCandles(symbol, params);
+      record(candlesPath(dir, symbol, params), series);
+      return series;
+    },
+
+    async search(query, markets) {
+      const results = await provider.search(query, markets);
+
+      // Merge into the single search index instead of storing per query
+      let recorded: StockSearchResult[] = [];
+      try {
+        recorded = JSON.parse(await fs.readFile(searchPath(dir), 'utf-8'));
+      } catch {
+        // No index recorded yet
+      }
+      const merged = new Map(recorded.map(result => [result.symbol, result]));
+      results.forEach(result => merged.set(result.symbol, result));
+      record(searchPath(dir), Array.from(merged.values()));
+
+      return results;
+    }
+  };
+}
@@ -0,0 +1,37 @@
+// server/providers/index.ts
+
+import path from "path";
+import { createFixtureProvider, withRecording } from "./fixtures";
+import { yahooProvider } from "./yahoo";
+import type { MarketDataProvider } from "./types";
+
+export * from "./types";
+
+const DEFAULT_FIXTURES_DIR = path.resolve(process.cwd(), "server", "fixtures", "market-data");
+
+// Select the market data provider from the environment:
+//   MARKET_DATA_PROVIDER      'yahoo' (default) or 'fixtures'
+//   MARKET_DATA_FIXTURES_DIR  directory read by the fixture provider
+//   MARKET_DATA_RECORD_DIR    record every live response into this directory
+export function createMarketDataProvider(env: NodeJS.ProcessEnv = process.env): MarketDataProvider {
+  const name = (env.MARKET_DATA_PROVIDER || 'yahoo').toLowerCase();
+
+  let provider: MarketDataProvider;
+  switch (name) {
+    case 'yahoo':
+      provider = yahooProvider;
+      break;
+    case 'fixtures':
+      provider = createFixtureProvider(env.MARKET_DATA_FIXTURES_DIR || DEFAULT_FIXTURES_DIR);
+      break;
+    default:
+      throw new Error(`Unknown MARKET_DATA_PROVIDER '${name}'. Use 'yahoo' or 'fixtures'.`);
+  }
+
+  if (env.MARKET_DATA_RECORD_DIR) {
+    provider = withRecording(provider, env.MARKET_DATA_RECORD_DIR);
+  }
+
+  console.log(`Using market data provider: ${provider.name}`);
+  return provider;
+}
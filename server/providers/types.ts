@@ -0,0 +1,51 @@
+// server/providers/types.ts
+
+import type {
+  Candle,
+  ChartInterval,
+  ChartTimeframe,
+  StockData,
+  StockMarket,
+  StockSearchResult
+} from "../../client/src/types/stocks";
+
+export interface ChartParams {
+  range: ChartTimeframe;
+  interval: ChartInterval;
+}
+
+export interface CandleSeries {
+  symbol: string;
+  range: ChartTimeframe;
+  interval: ChartInterval;
+  quote: StockData;
+  candles: Candle[];
+}
+
+// Source of market data. Adapters translate a vendor's API into these
+// normalized shapes and report failures as MarketDataError.
+export interface MarketDataProvider {
+  name: string;
+  getQuote(symbol: string): Promise<StockData>;
+  getCandles(symbol: string, params: ChartParams): Promise<CandleSeries>;
+  // Equity search, limited to the given markets
+  search(query: string, markets: StockMarket[]): Promise<StockSearchResult[]>;
+}
+
+export type MarketDataErrorCode =
+  | 'NOT_FOUND'
+  | 'TIMEOUT'
+  | 'RATE_LIMITED'
+  | 'INVALID_RESPONSE'
+  | 'UPSTREAM_ERROR';
+
+export class MarketDataError extends Error {
+  code: MarketDataErrorCode;
+  status?: number;
+  constructor(code: MarketDataErrorCode, message: string, status?: number) {
+    super(message);
+    this.name = 'MarketDataError';
+    this.code = code;
+    this.status = status;
+  }
+}
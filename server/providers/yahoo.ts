@@ -0,0 +1,240 @@
+// server/providers/yahoo.ts
+
+import axios from "axios";
+import type {
+  Candle,
+  StockData,
+  StockMarket,
+  StockSearchResult
+} from "../../client/src/types/stocks";
+import { MarketDataError, type ChartParams, type MarketDataProvider } from "./types";
+
+interface YahooFinanceResponse {
+  chart?: {
+    result?: Array<{
+      meta?: {
+        symbol: string;
+        regularMarketPrice: number;
+        previousClose: number;
+        chartPreviousClose?: number;
+        currency: string;
+        regularMarketOpen: number;
+        regularMarketDayHigh: number;
+        regularMarketDayLow: number;
+        regularMarketVolume: number;
+        fiftyTwoWeekHigh: number;
+        fiftyTwoWeekLow: number;
+        exchangeName: string;
+      };
+      timestamp: number[];
+      indicators: {
+        quote: Array<{
+          close: Array<number | null>;
+          volume?: Array<number | null>;
+          open?: Array<number | null>;
+          high?: Array<number | null>;
+          low?: Array<number | null>;
+        }>;
+      };
+    }>;
+    error?: {
+      code: string;
+      description: string;
+    };
+  };
+}
+
+type YahooChartResult = NonNullable<NonNullable<YahooFinanceResponse['chart']>['result']>[number];
+
+const YAHOO_HEADERS = {
+  'Accept': 'application/json',
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+};
+
+function validateYahooResponse(data: YahooFinanceResponse): YahooChartResult {
+  if (data?.chart?.error) {
+    throw new MarketDataError('NOT_FOUND', data.chart.error.description, 404);
+  }
+
+  if (!data?.chart?.result?.[0]) {
+    throw new MarketDataError('INVALID_RESPONSE', "Invalid response structure");
+  }
+
+  const result = data.chart.result[0];
+
+  // Check for required fields
+  if (!result.meta?.regularMarketPrice || !result.timestamp || !result.indicators?.quote?.[0]) {
+    throw new MarketDataError('INVALID_RESPONSE', "Missing required data fields");
+  }
+
+  return result;
+}
+
+// Translate axios failures into provider-neutral errors
+function toMarketDataError(error: unknown, symbol?: string): unknown {
+  if (!axios.isAxiosError(error)) return error;
+
+  if (error.code === 'ECONNABORTED') {
+    return new MarketDataError('TIMEOUT', "The request to Yahoo Finance timed out", 504);
+  }
+  if (error.response?.status === 429) {
+    return new MarketDataError('RATE_LIMITED', "Too many requests to Yahoo Finance API", 429);
+  }
+  if (error.response?.status === 404) {
+    return new MarketDataError('NOT_FOUND', `No data available for symbol: ${symbol}`, 404);
+  }
+  return new MarketDataError(
+    'UPSTREAM_ERROR',
+    error.response?.data?.error || error.message,
+    error.response?.status
+  );
+}
+
+async function fetchChart(symbol: string, { range, interval }: ChartParams): Promise<YahooChartResult> {
+  try {
+    const response = await axios.get<YahooFinanceResponse>(
+      `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}`,
+      {
+        params: {
+          interval,
+          range,
+          includePrePost: false
+        },
+        headers: YAHOO_HEADERS,
+        timeout: 10000 // 10 second timeout
+      }
+    );
+    return validateYahooResponse(response.data);
+  } catch (error) {
+    throw toMarketDataError(error, symbol);
+  }
+}
+
+function toStockData(result: YahooChartResult): StockData {
+  const meta = result.meta!;
+  const previousClose = meta.previousClose ?? meta.chartPreviousClose;
+  const change = previousClose ? meta.regularMarketPrice - previousClose : 0;
+
+  return {
+    symbol: meta.symbol,
+    price: meta.regularMarketPrice,
+    change,
+    percentChange: previousClose ? (change / previousClose) * 100 : 0,
+    currency: meta.currency,
+    exchange: meta.exchangeName,
+    open: meta.regularMarketOpen,
+    high: meta.regularMarketDayHigh,
+    low: meta.regularMarketDayLow,
+    volume: meta.regularMarketVolume,
+    previousClose,
+    fiftyTwoWeekHigh: meta.fiftyTwoWeekHigh,
+    fiftyTwoWeekLow: meta.fiftyTwoWeekLow
+  };
+}
+
+// Yahoo pads its arrays with nulls for minutes without trades
+function toCandles(result: YahooChartResult): Candle[] {
+  const quote = result.indicators.quote[0];
+  const candles: Candle[] = [];
+
+  result.timestamp.forEach((time, index) => {
+    const close = quote.close[index];
+    if (typeof close !== 'number' || isNaN(close)) return;
+
+    candles.push({
+      time,
+      open: quote.open?.[index] ?? close,
+      high: quote.high?.[index] ?? close,
+      low: quote.low?.[index] ?? close,
+      close,
+      volume: quote.volume?.[index] ?? 0
+    });
+  });
+
+  return candles;
+}
+
+// Market of a Yahoo symbol: .NS is NSE, .BO is BSE and suffix-less
+// tickers are US listings. Other exchanges are not supported.
+function toMarket(symbol: string): StockMarket | null {
+  if (symbol.endsWith('.NS')) return 'NSE';
+  if (symbol.endsWith('.BO')) return 'BSE';
+  if (!symbol.includes('.') && !symbol.startsWith('^')) return 'US';
+  return null;
+}
+
+async function searchQuotes(query: string, params: Record<string, unknown>) {
+  const response = await axios.get(
+    `https://query1.finance.yahoo.com/v1/finance/search`,
+    {
+      params: {
+        q: query,
+        quotesCount: 10,
+        newsCount: 0,
+        ...params
+      },
+      headers: YAHOO_HEADERS,
+      timeout: 5000
+    }
+  );
+  return (response.data.quotes || []) as any[];
+}
+
+export const yahooProvider: MarketDataProvider = {
+  name: 'yahoo',
+
+  async getQuote(symbol) {
+    return toStockData(await fetchChart(symbol, { range: '1d', interval: '1d' }));
+  },
+
+  async getCandles(symbol, params) {
+    const result = await fetchChart(symbol, params);
+    return {
+      symbol,
+      ...params,
+      quote: toStockData(result),
+      candles: toCandles(result)
+    };
+  },
+
+  async search(query, markets) {
+    try {
+      // Clean the query
+      const cleanQuery = query.trim().toUpperCase();
+      const hasSuffix = /\.(NS|BO)$/.test(cleanQuery);
+
+      // Yahoo ranks US listings first for bare tickers, so Indian listings
+      // are also searched with the exchange suffix appended
+      const queries = [
+        ...(!hasSuffix && markets.includes('NSE') ? [`${cleanQuery}.NS`] : []),
+        ...(!hasSuffix && markets.includes('BSE') ? [`${cleanQuery}.BO`] : []),
+        cleanQuery
+      ];
+
+      const responses = await Promise.all(queries.map(q => searchQuotes(q, {
+        quotesCount: 20,
+        enableFuzzyQuery: false
+      })));
+
+      const results = new Map<string, StockSearchResult>();
+      responses.flat().forEach((quote: any) => {
+        if (!quote?.symbol || quote?.quoteType !== 'EQUITY') return;
+        if (!(quote?.longname || quote?.shortname)) return;
+
+        const market = toMarket(quote.symbol);
+        if (!market || !markets.includes(market) || results.has(quote.symbol)) return;
+
+        results.set(quote.symbol, {
+          symbol: quote.symbol,
+          name: quote.longname || quote.shortname,
+          exchange: market === 'US' ? (quote.exchDisp || 'US') : market,
+          market
+        });
+      });
+
+      return Array.from(results.values()).slice(0, 10);
+    } catch (error) {
+      throw toMarketDataError(error);
+    }
+  }
+};
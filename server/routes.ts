@@ -1,43 +1,96 @@
 // server/routes.ts
 
-import type { Express } from "express";
-import axios from "axios";
+import type { Express, Response } from "express";
 import rateLimit from "express-rate-limit";
+import { ResponseCache } from "./cache";
+import { computeStatistics } from "./statistics";
+import {
+  getMarketStatus,
+  getSymbolMarketState,
+  MARKET_CALENDARS
+} from "./marketCalendar";
+import {
+  createMarketDataProvider,
+  MarketDataError,
+  type CandleSeries,
+  type ChartParams
+} from "./providers";
+import type {
+  ChartTimeframe,
+  ChartInterval,
+  IndexOverview,
+  MarketCalendarId,
+  SymbolSparkline,
+  StockChartData,
+  StockData,
+  StockMarket
+} from "../client/src/types/stocks";
+import type { ChartParamErrorCode } from "../client/src/types/api";
+
+// Chart ranges and the intervals the upstream APIs serve for each of them.
+// Minute data is only kept for a limited window, so fine intervals are
+// restricted to the short ranges.
+const CHART_INTERVALS_BY_RANGE: Record<ChartTimeframe, ChartInterval[]> = {
+  '1d': ['1m', '5m', '15m', '30m', '60m'],
+  '5d': ['1m', '5m', '15m', '30m', '60m', '1d'],
+  '1mo': ['5m', '15m', '30m', '60m', '1d', '1wk'],
+  '3mo': ['60m', '1d', '1wk'],
+  '6mo': ['60m', '1d', '1wk', '1mo'],
+  '1y': ['60m', '1d', '1wk', '1mo'],
+  '5y': ['1d', '1wk', '1mo'],
+  'max': ['1d', '1wk', '1mo']
+};
+
+// Interval used when a range is requested without one
+const DEFAULT_INTERVAL_BY_RANGE: Record<ChartTimeframe, ChartInterval> = {
+  '1d': '1m',
+  '5d': '15m',
+  '1mo': '60m',
+  '3mo': '1d',
+  '6mo': '1d',
+  '1y': '1d',
+  '5y': '1wk',
+  'max': '1mo'
+};
+
+const VALID_INTERVALS: ChartInterval[] = ['1m', '5m', '15m', '30m', '60m', '1d', '1wk', '1mo'];
+
+const SEARCH_MARKETS: StockMarket[] = ['NSE', 'BSE', 'US'];
+
+// Indices shown in the market overview
+const MARKET_INDICES = [
+  { symbol: '^NSEI', name: 'NIFTY 50' },
+  { symbol: '^BSESN', name: 'SENSEX' },
+  { symbol: '^NSEBANK', name: 'BANKNIFTY' },
+  { symbol: '^GSPC', name: 'S&P 500' }
+];
+
+// Maximum number of symbols accepted by the batch quote and sparkline endpoints
+const MAX_BATCH_SYMBOLS = 100;
+
+// Candles behind each sparkline (market overview and live tracker):
+// today's session at 5 minute resolution
+const SPARKLINE_PARAMS: ChartParams = { range: '1d', interval: '5m' };
+
+const marketData = createMarketDataProvider();
+
+// Quote/candle caches shared by every endpoint that reads market data.
+// TTL is configurable through QUOTE_CACHE_TTL_MS (defaults to 10 seconds).
+const QUOTE_CACHE_TTL_MS = Number(process.env.QUOTE_CACHE_TTL_MS) || 10000;
+
+// Serve the last good payload when the provider times out or rate limits us
+const isTransientError = (error: unknown) =>
+  error instanceof MarketDataError && (error.code === 'TIMEOUT' || error.code === 'RATE_LIMITED');
+
+const quoteCache = new ResponseCache<StockData>({
+  ttlMs: QUOTE_CACHE_TTL_MS,
+  serveStaleOn: isTransientError
+});
 
-// Types
-interface YahooFinanceResponse {
-  chart?: {
-    result?: Array<{
-      meta?: {
-        symbol: string;
-        regularMarketPrice: number;
-        previousClose: number;
-        currency: string;
-        regularMarketOpen: number;
-        regularMarketDayHigh: number;
-        regularMarketDayLow: number;
-        regularMarketVolume: number;
-        fiftyTwoWeekHigh: number;
-        fiftyTwoWeekLow: number;
-        exchangeName: string;
-      };
-      timestamp: number[];
-      indicators: {
-        quote: Array<{
-          close: number[];
-          volume?: number[];
-          open?: number[];
-          high?: number[];
-          low?: number[];
-        }>;
-      };
-    }>;
-    error?: {
-      code: string;
-      description: string;
-    };
-  };
-}
+const candleCache = new ResponseCache<CandleSeries>({
+  ttlMs: QUOTE_CACHE_TTL_MS,
+  serveStaleOn: isTransientError
+});
 
 // Configure rate limiters
 const apiLimiter = rateLimit({
@@ -65,35 +118,203 @@ const searchLimiter = rateLimit({
 });
 
 // Helper functions
-function isValidStockSymbol(symbol: string): boolean {
+export function isValidStockSymbol(symbol: string): boolean {
   // Handle empty or invalid input
   if (!symbol || typeof symbol !== 'string') return false;
 
-  const isNSEStock = symbol.endsWith('.NS');
-  const baseSymbol = isNSEStock ? symbol.slice(0, -3) : symbol;
+  // Index symbols such as ^NSEI, ^BSESN or ^GSPC
+  if (symbol.startsWith('^')) {
+    return /^\^[A-Z0-9]{2,12}$/.test(symbol);
+  }
 
-  if (isNSEStock) {
-    // NSE stocks can be alphabetic or 6-digit numeric
-    return /^[A-Z]+$/.test(baseSymbol) || /^[0-9]{6}$/.test(baseSymbol);
+  // NSE (.NS) and BSE (.BO) stocks
+  const indianMatch = symbol.match(/^(.+)\.(NS|BO)$/);
+  if (indianMatch) {
+    const baseSymbol = indianMatch[1];
+    // Tickers are alphabetic and may contain '&' or '-' (M&M, BAJAJ-AUTO);
+    // numeric codes such as BSE scrip codes (500325) are 6 digits
+    return /^[A-Z][A-Z0-9&-]*$/.test(baseSymbol) || /^[0-9]{6}$/.test(baseSymbol);
   }
 
-  // US stocks are 1-5 uppercase letters
-  return /^[A-Z]{1,5}$/.test(symbol);
+  // US stocks are 1-5 uppercase letters, with an optional share class (BRK-B)
+  return /^[A-Z]{1,5}(-[A-Z])?$/.test(symbol);
 }
 
-function validateYahooResponse(data: YahooFinanceResponse) {
-  if (!data?.chart?.result?.[0]) {
-    throw new Error("Invalid response structure");
+// Error body for a symbol rejected by isValidStockSymbol
+function invalidSymbolError(symbol: string) {
+  return {
+    error: "Invalid symbol format",
+    details: /\.(NS|BO)$/.test(symbol)
+      ? "Indian stock symbols should be in the format 'SYMBOL.NS' or 'SYMBOL.BO' (e.g., RELIANCE.NS, 500325.BO)"
+      : symbol.startsWith('^')
+        ? "Index symbols should start with '^' (e.g., ^NSEI)"
+        : "US stock symbols should be 1-5 uppercase letters with an optional share class (e.g., AAPL, BRK-B)",
+    code: "INVALID_SYMBOL_FORMAT"
+  };
+}
+
+function isChartTimeframe(value: string): value is ChartTimeframe {
+  return value in CHART_INTERVALS_BY_RANGE;
+}
+
+function isChartInterval(value: string): value is ChartInterval {
+  return (VALID_INTERVALS as string[]).includes(value);
+}
+
+// Validate the optional range/interval query parameters of the stock endpoint
+function parseChartParams(
+  query: Record<string, unknown>
+): { params: ChartParams } | { error: { error: string; details: string; code: ChartParamErrorCode } } {
+  const { range: rawRange, interval: rawInterval } = query;
+
+  if (rawRange !== undefined && (typeof rawRange !== 'string' || !isChartTimeframe(rawRange))) {
+    return {
+      error: {
+        error: "Invalid range",
+        details: `Range must be one of: ${Object.keys(CHART_INTERVALS_BY_RANGE).join(', ')}`,
+        code: "INVALID_RANGE"
+      }
+    };
+  }
+
+  if (rawInterval !== undefined && (typeof rawInterval !== 'string' || !isChartInterval(rawInterval))) {
+    return {
+      error: {
+        error: "Invalid interval",
+        details: `Interval must be one of: ${VALID_INTERVALS.join(', ')}`,
+        code: "INVALID_INTERVAL"
+      }
+    };
   }
 
-  const result = data.chart.result[0];
+  const range: ChartTimeframe = rawRange ?? '1d';
+  const interval: ChartInterval = rawInterval ?? DEFAULT_INTERVAL_BY_RANGE[range];
 
-  // Check for required fields
-  if (!result.meta?.regularMarketPrice || !result.timestamp || !result.indicators?.quote?.[0]) {
-    throw new Error("Missing required data fields");
+  if (!CHART_INTERVALS_BY_RANGE[range].includes(interval)) {
+    return {
+      error: {
+        error: "Incompatible interval",
+        details: `Interval '${interval}' is not available for range '${range}'. Use one of: ${CHART_INTERVALS_BY_RANGE[range].join(', ')}`,
+        code: "INCOMPATIBLE_INTERVAL"
+      }
+    };
   }
 
-  return result;
+  return { params: { range, interval } };
+}
+
+// Validate the comma-separated `symbols` parameter of the batch endpoints.
+// Duplicates are dropped; the order of first appearance is kept.
+function parseSymbolList(
+  value: unknown
+): { symbols: string[] } | { error: { error: string; details: string; code: string } } {
+  const symbols = typeof value === 'string'
+    ? Array.from(new Set(value.split(',').map(symbol => symbol.trim()).filter(Boolean)))
+    : [];
+
+  if (symbols.length === 0) {
+    return {
+      error: {
+        error: "Missing symbols",
+        details: "A comma-separated list of symbols is required",
+        code: "MISSING_SYMBOLS"
+      }
+    };
+  }
+
+  if (symbols.length > MAX_BATCH_SYMBOLS) {
+    return {
+      error: {
+        error: "Too many symbols",
+        details: `At most ${MAX_BATCH_SYMBOLS} symbols can be requested at once`,
+        code: "TOO_MANY_SYMBOLS"
+      }
+    };
+  }
+
+  return { symbols };
+}
+
+// Per-symbol entry in the `errors` list of a batch response
+function toBatchError(symbol: string, error: unknown) {
+  if (error instanceof MarketDataError) {
+    const { body } = describeMarketDataError(error, symbol);
+    return { symbol, details: body.details, code: body.code };
+  }
+
+  return {
+    symbol,
+    details: error instanceof Error ? error.message : "An unknown error occurred",
+    code: "INTERNAL_ERROR"
+  };
+}
+
+// Map a provider failure to the API's error response
+function sendMarketDataError(res: Response, error: unknown, symbol: string) {
+  if (error instanceof MarketDataError) {
+    const { status, body } = describeMarketDataError(error, symbol);
+    return res.status(status).json(body);
+  }
+
+  res.status(500).json({
+    error: "Server error",
+    details: error instanceof Error ? error.message : "An unknown error occurred",
+    code: "INTERNAL_ERROR"
+  });
+}
+
+function describeMarketDataError(error: MarketDataError, symbol: string) {
+  switch (error.code) {
+    case 'NOT_FOUND':
+      return {
+        status: 404,
+        body: { error: "Stock not found", details: error.message, code: "STOCK_NOT_FOUND", symbol }
+      };
+    case 'TIMEOUT':
+      return {
+        status: 504,
+        body: { error: "Request timeout", details: error.message, code: "TIMEOUT" }
+      };
+    case 'RATE_LIMITED':
+      return {
+        status: 429,
+        body: { error: "Rate limit exceeded", details: error.message, code: "UPSTREAM_RATE_LIMIT" }
+      };
+    case 'INVALID_RESPONSE':
+      return {
+        status: 500,
+        body: { error: "Invalid response", details: error.message, code: "VALIDATION_ERROR" }
+      };
+    default:
+      return {
+        status: error.status || 500,
+        body: { error: "API error", details: error.message, code: "API_ERROR" }
+      };
+  }
+}
+
+// Latest quote for a symbol, shared by the batch endpoint and the price stream
+export async function getQuote(symbol: string): Promise<StockData> {
+  const { value: quote, stale, age } = await quoteCache.get(
+    symbol,
+    () => marketData.getQuote(symbol)
+  );
+  const marketState = getSymbolMarketState(symbol);
+  return stale ? { ...quote, marketState, stale, age } : { ...quote, marketState };
+}
+
+// Candles for a symbol, keyed in the cache by symbol, range and interval
+async function getCandles(symbol: string, params: ChartParams) {
+  return candleCache.get(
+    `${symbol}:${params.range}:${params.interval}`,
+    () => marketData.getCandles(symbol, params)
+  );
+}
+
+// Normalized payload of the stock endpoint (StockChartData). The session
+// comes from the server's market calendar rather than the vendor.
+function toStockChartData({ symbol, range, interval, quote, candles }: CandleSeries): StockChartData {
+  return { ...quote, range, interval, marketState: getSymbolMarketState(symbol), candles };
 }
 
 // Export the main router configuration
@@ -106,9 +327,9 @@ export function registerRoutes(app: Express) {
 
   // Stock data endpoint
   app.get("/api/stock/:symbol", async (req, res) => {
-    try {
-      const { symbol } = req.params;
+    const { symbol } = req.params;
 
+    try {
       // Validate input
       if (!symbol) {
         return res.status(400).json({ 
@@ -120,100 +341,182 @@ export function registerRoutes(app: Express) {
 
       // Validate symbol format
       if (!isValidStockSymbol(symbol)) {
-        return res.status(400).json({ 
-          error: "Invalid symbol format",
-          details: symbol.includes('.NS') 
-            ? "Indian stock symbols should be in the format 'SYMBOL.NS' (e.g., RELIANCE.NS)"
-            : "US stock symbols should be 1-5 uppercase letters (e.g., AAPL)",
-          code: "INVALID_SYMBOL_FORMAT"
-        });
+        return res.status(400).json(invalidSymbolError(symbol));
+      }
+
+      // Validate range and interval
+      const chartParams = parseChartParams(req.query);
+      if ('error' in chartParams) {
+        return res.status(400).json(chartParams.error);
       }
+      const { range, interval } = chartParams.params;
 
       // Log request for debugging
-      console.log(`Fetching data for symbol: ${symbol}`);
-
-      // Make request to Yahoo Finance
-      const response = await axios.get<YahooFinanceResponse>(
-        `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}`,
-        {
-          params: {
-            interval: '1m',
-            range: '1d',
-            includePrePost: false
-          },
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-          },
-          timeout: 10000 // 10 second timeout
-        }
-      );
+      console.log(`Fetching data for symbol: ${symbol} (range: ${range}, interval: ${interval})`);
 
-      // Check for Yahoo API errors
-      if (response.data?.chart?.error) {
-        console.log('Yahoo API Error:', response.data.chart.error);
-        return res.status(404).json({
-          error: "Stock not found",
-          details: response.data.chart.error.description,
-          code: "STOCK_NOT_FOUND",
-          symbol
-        });
+      // Fetch from the market data provider (or serve it from the cache)
+      const { value: series, stale, age } = await getCandles(symbol, { range, interval });
+      const data = toStockChartData(series);
+
+      // Send successful response, flagging data served from a stale cache entry
+      res.json(stale ? { ...data, stale, age } : data);
+
+    } catch (error: any) {
+      console.error('Stock API Error:', error);
+      sendMarketDataError(res, error, symbol);
+    }
+  });
+
+  // Extended statistics endpoint
+  app.get("/api/stock/:symbol/stats", async (req, res) => {
+    const { symbol } = req.params;
+
+    try {
+      if (!isValidStockSymbol(symbol)) {
+        return res.status(400).json(invalidSymbolError(symbol));
       }
 
-      // Validate response data
-      try {
-        validateYahooResponse(response.data);
-      } catch (validationError: any) {
-        console.error('Validation Error:', validationError);
-        return res.status(500).json({
-          error: "Invalid response",
-          details: validationError.message,
-          code: "VALIDATION_ERROR"
-        });
+      // Today's minute candles drive VWAP; a year of daily candles gives the
+      // 52-week range and the volume baseline
+      const [intraday, daily] = await Promise.all([
+        getCandles(symbol, { range: '1d', interval: '1m' }),
+        getCandles(symbol, { range: '1y', interval: '1d' })
+      ]);
+
+      const stats = computeStatistics(intraday.value, daily.value, getSymbolMarketState(symbol));
+      const stale = intraday.stale || daily.stale;
+
+      res.json(stale ? { ...stats, stale, age: Math.max(intraday.age, daily.age) } : stats);
+
+    } catch (error: any) {
+      console.error('Stock Stats API Error:', error);
+      sendMarketDataError(res, error, symbol);
+    }
+  });
+
+  // Batch quote endpoint
+  app.get("/api/quotes", async (req, res) => {
+    try {
+      const parsed = parseSymbolList(req.query.symbols);
+      if ('error' in parsed) {
+        return res.status(400).json(parsed.error);
       }
+      const requested = parsed.symbols;
+
+      const quotes: StockData[] = [];
+      const errors: Array<{ symbol: string; details: string; code: string }> = [];
 
-      // Send successful response
-      res.json(response.data);
+      await Promise.all(requested.map(async (symbol) => {
+        if (!isValidStockSymbol(symbol)) {
+          errors.push({ symbol, details: "Invalid symbol format", code: "INVALID_SYMBOL_FORMAT" });
+          return;
+        }
+
+        try {
+          quotes.push(await getQuote(symbol));
+        } catch (error) {
+          errors.push(toBatchError(symbol, error));
+        }
+      }));
+
+      // Preserve the order the symbols were requested in
+      const order = new Map(requested.map((symbol, index) => [symbol, index]));
+      quotes.sort((a, b) => (order.get(a.symbol) ?? 0) - (order.get(b.symbol) ?? 0));
+
+      res.json({ quotes, errors });
 
     } catch (error: any) {
-      console.error('Stock API Error:', error);
+      console.error('Quotes API Error:', error);
+      res.status(500).json({
+        error: "Server error",
+        details: error instanceof Error ? error.message : "An unknown error occurred",
+        code: "INTERNAL_ERROR"
+      });
+    }
+  });
 
-      // Handle Axios errors
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED') {
-          return res.status(504).json({
-            error: "Request timeout",
-            details: "The request to Yahoo Finance timed out",
-            code: "TIMEOUT"
-          });
+  // Intraday closes for many symbols at once, for the live tracker's
+  // mini-charts. Failures are reported per symbol like /api/quotes.
+  app.get("/api/sparklines", async (req, res) => {
+    try {
+      const parsed = parseSymbolList(req.query.symbols);
+      if ('error' in parsed) {
+        return res.status(400).json(parsed.error);
+      }
+      const requested = parsed.symbols;
+
+      const sparklines: SymbolSparkline[] = [];
+      const errors: Array<{ symbol: string; details: string; code: string }> = [];
+
+      await Promise.all(requested.map(async (symbol) => {
+        if (!isValidStockSymbol(symbol)) {
+          errors.push({ symbol, details: "Invalid symbol format", code: "INVALID_SYMBOL_FORMAT" });
+          return;
         }
 
-        if (error.response?.status === 429) {
-          return res.status(429).json({
-            error: "Rate limit exceeded",
-            details: "Too many requests to Yahoo Finance API",
-            code: "YAHOO_RATE_LIMIT"
+        try {
+          const { value: series } = await getCandles(symbol, SPARKLINE_PARAMS);
+          sparklines.push({
+            symbol,
+            previousClose: series.quote.previousClose,
+            sparkline: series.candles.map(candle => candle.close)
           });
+        } catch (error) {
+          errors.push(toBatchError(symbol, error));
         }
+      }));
+
+      const order = new Map(requested.map((symbol, index) => [symbol, index]));
+      sparklines.sort((a, b) => (order.get(a.symbol) ?? 0) - (order.get(b.symbol) ?? 0));
 
-        if (error.response?.status === 404) {
-          return res.status(404).json({ 
-            error: "Stock not found",
-            details: `No data available for symbol: ${req.params.symbol}`,
-            code: "NOT_FOUND"
+      res.json({ sparklines, errors });
+
+    } catch (error: any) {
+      console.error('Sparklines API Error:', error);
+      res.status(500).json({
+        error: "Server error",
+        details: error instanceof Error ? error.message : "An unknown error occurred",
+        code: "INTERNAL_ERROR"
+      });
+    }
+  });
+
+  // Market overview endpoint
+  app.get("/api/indices", async (_req, res) => {
+    try {
+      const indices: IndexOverview[] = [];
+      const errors: Array<{ symbol: string; details: string; code: string }> = [];
+
+      await Promise.all(MARKET_INDICES.map(async ({ symbol, name }) => {
+        try {
+          const { value: series, stale } = await getCandles(symbol, SPARKLINE_PARAMS);
+          const { quote } = series;
+
+          indices.push({
+            symbol,
+            name,
+            price: quote.price,
+            change: quote.change,
+            percentChange: quote.percentChange,
+            currency: quote.currency,
+            marketState: getSymbolMarketState(symbol),
+            sparkline: series.candles.map(candle => candle.close),
+            ...(stale ? { stale } : {})
           });
+        } catch (error) {
+          errors.push(toBatchError(symbol, error));
         }
+      }));
 
-        // Handle other Axios errors
-        return res.status(error.response?.status || 500).json({
-          error: "API error",
-          details: error.response?.data?.error || error.message,
-          code: "API_ERROR"
-        });
-      }
+      // Keep the configured display order
+      const order = new Map(MARKET_INDICES.map(({ symbol }, index) => [symbol, index]));
+      indices.sort((a, b) => (order.get(a.symbol) ?? 0) - (order.get(b.symbol) ?? 0));
 
-      // Handle all other errors
-      res.status(500).json({ 
+      res.json({ indices, errors });
+
+    } catch (error: any) {
+      console.error('Indices API Error:', error);
+      res.status(500).json({
         error: "Server error",
         details: error instanceof Error ? error.message : "An unknown error occurred",
         code: "INTERNAL_ERROR"
@@ -221,12 +524,28 @@ export function registerRoutes(app: Express) {
     }
   });
 
-  // Search endpoint
-  // server/routes.ts - Update the search endpoint
+  // Market calendar endpoint: current session of each market, optionally
+  // filtered with ?market=NSE|NYSE
+  app.get("/api/market/status", (req, res) => {
+    const { market } = req.query;
+    const marketFilter = typeof market === 'string' ? market.toUpperCase() : undefined;
+
+    if (marketFilter && !(MARKET_CALENDARS as string[]).includes(marketFilter)) {
+      return res.status(400).json({
+        error: "Invalid market",
+        details: `Market must be one of: ${MARKET_CALENDARS.join(', ')}`,
+        code: "INVALID_MARKET"
+      });
+    }
 
+    const markets = marketFilter ? [marketFilter as MarketCalendarId] : MARKET_CALENDARS;
+    res.json({ markets: markets.map(id => getMarketStatus(id)) });
+  });
+
+  // Search endpoint
   app.get("/api/search", async (req, res) => {
     try {
-      const { query } = req.query;
+      const { query, exchange = 'ALL' } = req.query;
 
       if (!query || typeof query !== 'string') {
         return res.status(400).json({ 
@@ -236,99 +555,36 @@ export function registerRoutes(app: Express) {
         });
       }
 
-      // Clean the query
-      const cleanQuery = query.trim().toUpperCase();
-
-      // Create NSE specific query
-      const searchQuery = cleanQuery.endsWith('.NS') ? cleanQuery : `${cleanQuery}.NS`;
-
-      const response = await axios.get(
-        `https://query1.finance.yahoo.com/v1/finance/search`,
-        {
-          params: {
-            q: searchQuery,
-            quotesCount: 10,
-            newsCount: 0,
-            enableFuzzyQuery: false,
-            quotesQueryId: 'tss_match_phrase_query'
-          },
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-          },
-          timeout: 5000
-        }
-      );
-
-      // Filter for NSE stocks only
-      const quotes = response.data.quotes || [];
-      const formattedResults = quotes
-        .filter((quote: any) => (
-          quote?.symbol &&
-          quote.symbol.endsWith('.NS') &&
-          (quote?.longname || quote?.shortname) &&
-          quote?.quoteType === 'EQUITY'
-        ))
-        .map((quote: any) => ({
-          symbol: quote.symbol,
-          name: quote.longname || quote.shortname,
-          exchange: 'NSE',
-          market: 'NSE'
-        }))
-        .slice(0, 10);
-
-      // If no NSE results found, try without .NS suffix
-      if (formattedResults.length === 0) {
-        const altResponse = await axios.get(
-          `https://query1.finance.yahoo.com/v1/finance/search`,
-          {
-            params: {
-              q: cleanQuery,
-              quotesCount: 10,
-              newsCount: 0
-            },
-            headers: {
-              'Accept': 'application/json',
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-            },
-            timeout: 5000
-          }
-        );
-
-        const altResults = (altResponse.data.quotes || [])
-          .filter((quote: any) => (
-            quote?.symbol &&
-            quote.symbol.endsWith('.NS') &&
-            quote?.quoteType === 'EQUITY'
-          ))
-          .map((quote: any) => ({
-            symbol: quote.symbol,
-            name: quote.longname || quote.shortname,
-            exchange: 'NSE',
-            market: 'NSE'
-          }))
-          .slice(0, 10);
-
-        if (altResults.length > 0) {
-          return res.json(altResults);
-        }
+      // Optional exchange filter: NSE, BSE, US or ALL
+      const exchangeFilter = typeof exchange === 'string' ? exchange.toUpperCase() : '';
+      if (exchangeFilter !== 'ALL' && !(SEARCH_MARKETS as string[]).includes(exchangeFilter)) {
+        return res.status(400).json({
+          error: "Invalid exchange",
+          details: `Exchange must be one of: ALL, ${SEARCH_MARKETS.join(', ')}`,
+          code: "INVALID_EXCHANGE"
+        });
       }
+      const markets = exchangeFilter === 'ALL' ? SEARCH_MARKETS : [exchangeFilter as StockMarket];
 
-      if (formattedResults.length === 0) {
+      const results = await marketData.search(query, markets);
+
+      if (results.length === 0) {
         return res.status(404).json({
           error: "No results",
-          details: "No matching NSE stocks found",
+          details: exchangeFilter === 'ALL'
+            ? "No matching stocks found"
+            : `No matching ${exchangeFilter} stocks found`,
           code: "NO_RESULTS"
         });
       }
 
-      res.json(formattedResults);
+      res.json(results);
 
     } catch (error: any) {
       console.error('Search API Error:', error);
 
-      if (axios.isAxiosError(error)) {
-        if (error.code === 'ECONNABORTED') {
+      if (error instanceof MarketDataError) {
+        if (error.code === 'TIMEOUT') {
           return res.status(504).json({
             error: "Search timeout",
             details: "The search request timed out",
@@ -336,11 +592,11 @@ export function registerRoutes(app: Express) {
           });
         }
 
-        if (error.response?.status === 429) {
+        if (error.code === 'RATE_LIMITED') {
           return res.status(429).json({
             error: "Rate limit exceeded",
-            details: "Too many requests to Yahoo Finance API",
-            code: "YAHOO_RATE_LIMIT"
+            details: error.message,
+            code: "UPSTREAM_RATE_LIMIT"
           });
         }
       }
@@ -354,4 +610,4 @@ export function registerRoutes(app: Express) {
   });
 
   return app;
-}
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+// server/statistics.ts
+
+import type { Candle, MarketState, StockStatistics } from "../client/src/types/stocks";
+import type { CandleSeries } from "./providers";
+
+// Sessions averaged for the volume baseline
+const AVERAGE_VOLUME_SESSIONS = 20;
+
+function round(value: number, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function utcDate(time: number) {
+  return new Date(time * 1000).toISOString().slice(0, 10);
+}
+
+// Volume weighted average of the typical price (high + low + close) / 3.
+// Indices report no traded volume, so they have no VWAP.
+export function computeVwap(candles: Candle[]): number | null {
+  let weighted = 0;
+  let volume = 0;
+  candles.forEach(candle => {
+    weighted += ((candle.high + candle.low + candle.close) / 3) * candle.volume;
+    volume += candle.volume;
+  });
+  return volume > 0 ? round(weighted / volume) : null;
+}
+
+// Mean volume of the last `sessions` daily candles
+export function computeAverageVolume(candles: Candle[], sessions = AVERAGE_VOLUME_SESSIONS): number | null {
+  const recent = candles.slice(-sessions).filter(candle => candle.volume > 0);
+  if (recent.length === 0) return null;
+  return Math.round(recent.reduce((sum, candle) => sum + candle.volume, 0) / recent.length);
+}
+
+// Statistics for the stock endpoint, from today's intraday series (1d/1m)
+// and a year of daily candles (1y/1d)
+export function computeStatistics(
+  intraday: CandleSeries,
+  daily: CandleSeries,
+  marketState: MarketState
+): StockStatistics {
+  const { quote } = intraday;
+
+  // Every session except the one the intraday series belongs to, so the
+  // baseline is not dragged down by today's partial volume
+  const lastIntraday = intraday.candles[intraday.candles.length - 1];
+  const today = lastIntraday ? utcDate(lastIntraday.time) : null;
+  const completed = daily.candles.filter(candle => utcDate(candle.time) !== today);
+
+  // Prefer the vendor's 52-week range; derive it from daily candles otherwise
+  const yearCandles = daily.candles.length > 0 ? daily.candles : intraday.candles;
+  const fiftyTwoWeekHigh = quote.fiftyTwoWeekHigh ??
+    (yearCandles.length > 0 ? Math.max(...yearCandles.map(candle => candle.high)) : null);
+  const fiftyTwoWeekLow = quote.fiftyTwoWeekLow ??
+    (yearCandles.length > 0 ? Math.min(...yearCandles.map(candle => candle.low)) : null);
+
+  const fiftyTwoWeekPosition = fiftyTwoWeekHigh !== null && fiftyTwoWeekLow !== null && fiftyTwoWeekHigh > fiftyTwoWeekLow
+    ? round(Math.min(100, Math.max(0, ((quote.price - fiftyTwoWeekLow) / (fiftyTwoWeekHigh - fiftyTwoWeekLow)) * 100)), 1)
+    : null;
+
+  const averageVolume20d = computeAverageVolume(completed);
+  // Whole-day ratio: early in a session this reads low until volume builds up
+  const relativeVolume = averageVolume20d && quote.volume !== undefined
+    ? round(quote.volume / averageVolume20d)
+    : null;
+
+  return {
+    symbol: quote.symbol,
+    currency: quote.currency,
+    price: quote.price,
+    open: quote.open,
+    high: quote.high,
+    low: quote.low,
+    volume: quote.volume,
+    previousClose: quote.previousClose,
+    fiftyTwoWeekHigh,
+    fiftyTwoWeekLow,
+    fiftyTwoWeekPosition,
+    vwap: computeVwap(intraday.candles),
+    averageVolume20d,
+    relativeVolume,
+    marketState
+  };
+}
@@ -0,0 +1,197 @@
+// server/stream.ts
+
+import type { Server, IncomingMessage } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { getQuote, isValidStockSymbol } from "./routes";
+import { getSymbolMarketState } from "./marketCalendar";
+import type { MarketState } from "../client/src/types/stocks";
+
+export const PRICE_STREAM_PATH = "/ws/prices";
+
+// How often each subscribed symbol is polled upstream
+const STREAM_POLL_INTERVAL_MS = Number(process.env.STREAM_POLL_INTERVAL_MS) || 10000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_SUBSCRIPTIONS_PER_CLIENT = 100;
+
+type ClientMessage =
+  | { type: "subscribe"; symbols: string[] }
+  | { type: "unsubscribe"; symbols: string[] };
+
+interface SymbolFeed {
+  clients: Set<WebSocket>;
+  timer: NodeJS.Timeout;
+  lastMessage?: string;
+  lastMarketState?: MarketState;  // Session of the last price sent
+}
+
+function send(socket: WebSocket, message: unknown) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(typeof message === "string" ? message : JSON.stringify(message));
+  }
+}
+
+function parseMessage(raw: string): ClientMessage | null {
+  try {
+    const message = JSON.parse(raw);
+    if (
+      (message?.type === "subscribe" || message?.type === "unsubscribe") &&
+      Array.isArray(message.symbols) &&
+      message.symbols.every((symbol: unknown) => typeof symbol === "string")
+    ) {
+      return message;
+    }
+  } catch {
+    // Fall through to the invalid message response
+  }
+  return null;
+}
+
+// Attach the live price WebSocket endpoint to the http server.
+// Every subscribed symbol has exactly one upstream poll, whose result is
+// fanned out to all sockets subscribed to it.
+export function setupPriceStream(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  const feeds = new Map<string, SymbolFeed>();
+  const subscriptions = new Map<WebSocket, Set<string>>();
+  const alive = new WeakMap<WebSocket, boolean>();
+
+  const poll = async (symbol: string) => {
+    const feed = feeds.get(symbol);
+    if (!feed) return;
+
+    // Once a price has been sent after the close there is nothing new to
+    // fetch until the market opens again
+    if (feed.lastMarketState === 'CLOSED' && getSymbolMarketState(symbol) === 'CLOSED') return;
+
+    let message: string;
+    let marketState: MarketState | undefined;
+    try {
+      const quote = await getQuote(symbol);
+      marketState = quote.marketState;
+      message = JSON.stringify({ type: "price", quote });
+    } catch (error) {
+      message = JSON.stringify({
+        type: "error",
+        symbol,
+        details: error instanceof Error ? error.message : "Unable to fetch price",
+        code: "STREAM_ERROR"
+      });
+    }
+
+    // The last subscriber may have left while the poll was in flight
+    const current = feeds.get(symbol);
+    if (!current) return;
+    current.lastMessage = message;
+    current.lastMarketState = marketState;
+    current.clients.forEach(client => send(client, message));
+  };
+
+  const subscribe = (socket: WebSocket, symbol: string) => {
+    const symbols = subscriptions.get(socket)!;
+    if (symbols.has(symbol)) return;
+
+    if (symbols.size >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+      send(socket, {
+        type: "error",
+        symbol,
+        details: `At most ${MAX_SUBSCRIPTIONS_PER_CLIENT} symbols can be streamed per connection`,
+        code: "TOO_MANY_SUBSCRIPTIONS"
+      });
+      return;
+    }
+
+    if (!isValidStockSymbol(symbol)) {
+      send(socket, { type: "error", symbol, details: "Invalid symbol format", code: "INVALID_SYMBOL_FORMAT" });
+      return;
+    }
+
+    symbols.add(symbol);
+
+    const feed = feeds.get(symbol);
+    if (feed) {
+      feed.clients.add(socket);
+      if (feed.lastMessage) send(socket, feed.lastMessage);
+      return;
+    }
+
+    feeds.set(symbol, {
+      clients: new Set([socket]),
+      timer: setInterval(() => poll(symbol), STREAM_POLL_INTERVAL_MS)
+    });
+    poll(symbol);
+  };
+
+  const unsubscribe = (socket: WebSocket, symbol: string) => {
+    subscriptions.get(socket)?.delete(symbol);
+
+    const feed = feeds.get(symbol);
+    if (!feed) return;
+
+    feed.clients.delete(socket);
+    if (feed.clients.size === 0) {
+      clearInterval(feed.timer);
+      feeds.delete(symbol);
+    }
+  };
+
+  wss.on("connection", (socket: WebSocket) => {
+    subscriptions.set(socket, new Set());
+    alive.set(socket, true);
+
+    socket.on("pong", () => alive.set(socket, true));
+
+    socket.on("message", (data) => {
+      const message = parseMessage(data.toString());
+      if (!message) {
+        send(socket, { type: "error", details: "Unrecognized message", code: "INVALID_MESSAGE" });
+        return;
+      }
+
+      const symbols = message.symbols.map(symbol => symbol.trim()).filter(Boolean);
+      if (message.type === "subscribe") {
+        symbols.forEach(symbol => subscribe(socket, symbol));
+      } else {
+        symbols.forEach(symbol => unsubscribe(socket, symbol));
+      }
+    });
+
+    socket.on("close", () => {
+      Array.from(subscriptions.get(socket) ?? []).forEach(symbol => unsubscribe(socket, symbol));
+      subscriptions.delete(socket);
+    });
+
+    socket.on("error", (error) => {
+      console.error("Price stream socket error:", error);
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(socket => {
+      if (!alive.get(socket)) {
+        socket.terminate();
+        return;
+      }
+      alive.set(socket, false);
+      socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  // Only claim upgrades for our path so Vite's HMR socket keeps working.
+  // Others are dropped unless another handler is there to claim them.
+  server.on("upgrade", (req: IncomingMessage, socket, head) => {
+    const { pathname } = new URL(req.url ?? "", "http://localhost");
+    if (pathname !== PRICE_STREAM_PATH) {
+      if (server.listenerCount("upgrade") === 1) socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      wss.emit("connection", ws, req);
+    });
+  });
+
+  return wss;
+}